@@ -0,0 +1,253 @@
+import fs from "fs";
+import path from "path";
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ContractTransaction } from "ethers";
+import { ethers } from "hardhat";
+
+import { ERC20, Factory, Pair, Router, WNT, Zap } from "../typechain";
+
+import { PoolType } from "../lib/routes";
+
+import { advanceBlockAndTime, multiDeploy } from "../test/utils";
+
+const SNAPSHOT_PATH = path.join(__dirname, "gas-snapshot.json");
+
+// In percent. Set by the gas:benchmark task.
+const TOLERANCE = Number(process.env.GAS_TOLERANCE || "1");
+const UPDATE = process.env.UPDATE_GAS_SNAPSHOT === "true";
+
+const { parseEther } = ethers.utils;
+
+const MAX_HOPS = 4;
+
+// Every benchmark runs on a fresh chain, so the gas used only changes with the code.
+describe("Gas", () => {
+  const results: Record<string, number> = {};
+
+  let factory: Factory;
+  let router: Router;
+  let zap: Zap;
+  let alice: SignerWithAddress;
+
+  const measure = async (name: string, tx: Promise<ContractTransaction>) => {
+    const receipt = await (await tx).wait();
+    results[name] = receipt.gasUsed.toNumber();
+  };
+
+  const deployTokens = (count: number): Promise<Array<ERC20>> =>
+    multiDeploy(
+      Array(count).fill("ERC20"),
+      Array.from({ length: count }, (_, index) => [
+        `Token${index}`,
+        `T${index}`,
+      ])
+    );
+
+  const fund = async (tokens: ReadonlyArray<ERC20>) => {
+    for (const token of tokens) {
+      await token.mint(alice.address, parseEther("1000000"));
+      await token
+        .connect(alice)
+        .approve(router.address, ethers.constants.MaxUint256);
+    }
+  };
+
+  const addLiquidity = (tokenA: ERC20, tokenB: ERC20, stable: boolean) =>
+    router
+      .connect(alice)
+      .addLiquidity(
+        tokenA.address,
+        tokenB.address,
+        stable,
+        parseEther("1000"),
+        parseEther("1000"),
+        0,
+        0,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+  beforeEach(async () => {
+    let wnt: WNT;
+
+    [[, alice], [factory, wnt]] = await Promise.all([
+      ethers.getSigners(),
+      multiDeploy(["Factory", "WNT"]),
+    ]);
+
+    [router, zap] = await multiDeploy(
+      ["Router", "Zap"],
+      [
+        [factory.address, wnt.address],
+        [factory.address, wnt.address],
+      ]
+    );
+  });
+
+  for (const stable of [true, false]) {
+    const type = stable ? "stable" : "volatile";
+
+    it(`Factory.createPair ${type}`, async () => {
+      const [tokenA, tokenB] = await deployTokens(2);
+
+      await measure(
+        `Factory.createPair ${type}`,
+        factory.createPair(tokenA.address, tokenB.address, stable)
+      );
+    });
+
+    it(`Router.addLiquidity ${type}`, async () => {
+      const [tokenA, tokenB] = await deployTokens(2);
+      await fund([tokenA, tokenB]);
+
+      await measure(
+        `Router.addLiquidity ${type} new pair`,
+        addLiquidity(tokenA, tokenB, stable)
+      );
+      await measure(
+        `Router.addLiquidity ${type} existing pair`,
+        addLiquidity(tokenA, tokenB, stable)
+      );
+    });
+
+    it(`Router.swapExactTokensForTokens ${type}`, async () => {
+      // Only pairs of one type exist, so the router cannot pick the other curve
+      const tokens = await deployTokens(MAX_HOPS + 1);
+      await fund(tokens);
+
+      for (let index = 0; index < MAX_HOPS; index++)
+        await addLiquidity(tokens[index], tokens[index + 1], stable);
+
+      for (let hops = 1; hops <= MAX_HOPS; hops++)
+        await measure(
+          `Router.swapExactTokensForTokens ${type} ${hops} hop${
+            hops > 1 ? "s" : ""
+          }`,
+          router.connect(alice).swapExactTokensForTokens(
+            parseEther("1"),
+            0,
+            tokens.slice(1, hops + 1).map((token, index) => ({
+              from: tokens[index].address,
+              to: token.address,
+              poolType: PoolType.Auto,
+            })),
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+        );
+    });
+
+    it(`Zap.zapIn ${type}`, async () => {
+      const [tokenA, tokenB] = await deployTokens(2);
+      await fund([tokenA, tokenB]);
+      await addLiquidity(tokenA, tokenB, stable);
+
+      await tokenA
+        .connect(alice)
+        .approve(zap.address, ethers.constants.MaxUint256);
+
+      await measure(
+        `Zap.zapIn ${type}`,
+        zap
+          .connect(alice)
+          .zapIn(
+            tokenA.address,
+            parseEther("10"),
+            [tokenA.address, tokenB.address],
+            stable,
+            0,
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+      );
+    });
+
+    it(`Pair.swap ${type}`, async () => {
+      const [tokenA, tokenB] = await deployTokens(2);
+      await fund([tokenA, tokenB]);
+      await addLiquidity(tokenA, tokenB, stable);
+
+      const pair: Pair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, stable)
+      );
+
+      const [token0] = await pair.tokens();
+      const tokenIn = token0 === tokenA.address ? tokenA : tokenB;
+
+      const swap = async (name: string) => {
+        const amountOut = await pair.getAmountOut(
+          tokenIn.address,
+          parseEther("1")
+        );
+        await tokenIn.connect(alice).transfer(pair.address, parseEther("1"));
+        await measure(
+          name,
+          pair.connect(alice).swap(0, amountOut, alice.address, [])
+        );
+      };
+
+      // The slot of the current period is older than the window
+      await advanceBlockAndTime((await pair.twapWindow()).toNumber(), ethers);
+      await swap(`Pair.swap ${type} with observation update`);
+
+      // Same period, so only the reserves and the cumulatives change
+      await swap(`Pair.swap ${type} without observation update`);
+    });
+  }
+
+  it("does not regress beyond the tolerance", () => {
+    const snapshot: Record<string, number> = fs.existsSync(SNAPSHOT_PATH)
+      ? JSON.parse(fs.readFileSync(SNAPSHOT_PATH, "utf8"))
+      : {};
+
+    const rows = Object.keys(results)
+      .sort()
+      .map((name) => {
+        const previous = snapshot[name];
+        const gas = results[name];
+        const diff = previous ? ((gas - previous) / previous) * 100 : 0;
+
+        return { name, previous, gas, diff };
+      });
+
+    console.log(
+      `\n  ${"Benchmark".padEnd(58)}${"Snapshot".padStart(10)}${"Gas".padStart(
+        10
+      )}${"Diff".padStart(10)}`
+    );
+
+    for (const { name, previous, gas, diff } of rows)
+      console.log(
+        `  ${name.padEnd(58)}${String(previous ?? "-").padStart(10)}${String(
+          gas
+        ).padStart(10)}${`${diff.toFixed(2)}%`.padStart(10)}`
+      );
+
+    if (UPDATE || !fs.existsSync(SNAPSHOT_PATH)) {
+      fs.writeFileSync(
+        SNAPSHOT_PATH,
+        JSON.stringify(
+          rows.reduce<Record<string, number>>((acc, { name, gas }) => {
+            acc[name] = gas;
+            return acc;
+          }, {}),
+          null,
+          2
+        ) + "\n"
+      );
+      console.log(`\n  Snapshot saved at ${SNAPSHOT_PATH}`);
+      return;
+    }
+
+    const regressions = rows.filter(
+      ({ previous, diff }) => previous !== undefined && diff > TOLERANCE
+    );
+
+    expect(
+      regressions.map(({ name }) => name),
+      `Gas regressed by more than ${TOLERANCE}%`
+    ).to.be.deep.equal([]);
+  });
+});
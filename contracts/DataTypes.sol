@@ -5,11 +5,22 @@ struct Observation {
     uint256 timestamp;
     uint256 reserve0Cumulative;
     uint256 reserve1Cumulative;
+    uint256 price0Cumulative;
+    uint256 price1Cumulative;
 }
 
+// Pair a hop of a route must use. {Auto} uses the pair that quotes the best amount
+enum PoolType {
+    Auto,
+    Stable,
+    Volatile
+}
+
+// {poolType} was added in 2.0.0, which changed the selector of every function of {Router} that takes routes
 struct Route {
     address from;
     address to;
+    PoolType poolType;
 }
 
 struct Amount {
@@ -22,3 +33,30 @@ struct InitData {
     address token1;
     bool stable;
 }
+
+struct CustomSwapFee {
+    bool enabled;
+    uint256 fee;
+}
+
+// A pair and the position of an account in it, as returned by {Lens}
+struct PairInfo {
+    address pair;
+    address token0;
+    address token1;
+    string symbol0;
+    string symbol1;
+    uint256 decimals0;
+    uint256 decimals1;
+    bool stable;
+    uint256 reserve0;
+    uint256 reserve1;
+    uint256 swapFee;
+    uint256 totalSupply;
+    // Whether {Pair.getTokenPrice} and {Pair.getTwapPrice} return a price instead of reverting with {Pair__MissingObservation}
+    bool twapAvailable;
+    // LP tokens of the account and the reserves they are worth
+    uint256 balance;
+    uint256 amount0;
+    uint256 amount1;
+}
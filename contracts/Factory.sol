@@ -21,6 +21,30 @@ contract Factory is IFactory {
     // Int Governor.
     address public governor;
 
+    // The protocol can never take more than half of the swap fees
+    uint256 public constant MAX_PROTOCOL_FEE = 0.5e18;
+
+    // Share of the swap fees minted to {feeTo} as LP tokens. 1e18 is 100%. It starts at 1/6
+    uint256 public protocolFee = uint256(1e18) / 6;
+
+    // The swap fee can never be higher than 1%
+    uint256 public constant MAX_SWAP_FEE = 0.01e18;
+
+    // Swap fee of the pairs without a custom fee. 0.05% for stable pairs and 0.3% for volatile pairs
+    uint256 public stableSwapFee = 0.0005e18;
+    uint256 public volatileSwapFee = 0.003e18;
+
+    // The TWAP of a pair can never look back more than 7 days or store more than 48 observations
+    uint256 public constant MAX_TWAP_WINDOW = 7 days;
+    uint256 public constant MAX_TWAP_GRANULARITY = 48;
+
+    // TWAP settings of the new pairs. A 15 minute window with an observation every 3 minutes
+    uint256 public twapWindow = 15 minutes;
+    uint256 public twapGranularity = 5;
+
+    // Pair -> Swap fee that overrides the fee of its curve type
+    mapping(address => CustomSwapFee) private _customSwapFees;
+
     // A list of all pairs deployed by this contract
     address[] public allPairs;
     // Quick way to verify if a pair address has been deployed by this factory
@@ -33,9 +57,38 @@ contract Factory is IFactory {
     // Pair contract deployed by the factory will read this data in its constructor by calling {getInitializable}
     InitData private _initData;
 
+    // The creation code of {Pair} does not fit in the code of the factory with the contract size limit, so the constructor deploys it as the code of this contract and {createPair} copies it from there
+    address private immutable _pairCreationCode;
+
+    // The hash of the creation code of the pairs. It is a helper for other contracts to predict create2 addresses
+    bytes32 public immutable pairCodeHash;
+
     constructor() {
         // Assign the governor to the creator of this contract.
         governor = msg.sender;
+
+        bytes memory creationCode = type(Pair).creationCode;
+
+        pairCodeHash = keccak256(creationCode);
+
+        // Init code that returns the code after it, i.e. PUSH4 size, DUP1, PUSH1 offset, PUSH1 0, CODECOPY, PUSH1 0, RETURN.
+        // The code starts with a STOP, so calling the contract does not run the creation code of the pair.
+        bytes memory initCode = abi.encodePacked(
+            hex"63",
+            uint32(creationCode.length + 1),
+            hex"80600e6000396000f300",
+            creationCode
+        );
+
+        address pairCreationCode;
+
+        assembly {
+            pairCreationCode := create(0, add(initCode, 0x20), mload(initCode))
+        }
+
+        if (pairCreationCode == address(0)) revert Factory__DeployFailed();
+
+        _pairCreationCode = pairCreationCode;
     }
 
     /**
@@ -46,10 +99,17 @@ contract Factory is IFactory {
     }
 
     /**
-     * @return bytes32 The hash of the creationCode of a volatile pair contract. It is a helper for other contracts to predict create2 addresses
+     * @dev Pairs read their swap fee from this function on every swap.
+     *
+     * @param pair The address of a pair deployed by this contract
+     * @return uint256 The custom fee of `pair` if it has one. Otherwise, the fee of its curve type.
      */
-    function pairCodeHash() external pure returns (bytes32) {
-        return keccak256(type(Pair).creationCode);
+    function getSwapFee(address pair) external view returns (uint256) {
+        CustomSwapFee memory customSwapFee = _customSwapFees[pair];
+
+        if (customSwapFee.enabled) return customSwapFee.fee;
+
+        return IPair(pair).stable() ? stableSwapFee : volatileSwapFee;
     }
 
     /**
@@ -106,11 +166,7 @@ contract Factory is IFactory {
         _initData.stable = stable;
 
         // Deploy the right pair
-        pair = address(
-            new Pair{
-                salt: keccak256(abi.encodePacked(token0, token1, stable))
-            }()
-        );
+        pair = _deployPair(keccak256(abi.encodePacked(token0, token1, stable)));
 
         /// Get some gas refund.
         delete _initData;
@@ -142,6 +198,23 @@ contract Factory is IFactory {
         feeTo = _feeTo;
     }
 
+    /**
+     * @dev Allows the governor to update the share of the swap fees that is minted to {feeTo}. Pairs apply it to the fees accrued since their last liquidity event.
+     *
+     * @param fee The new share. 1e18 is 100%. Zero turns the protocol fee off.
+     *
+     * Requirements:
+     *
+     * - Only the {governor} can update this value.
+     * - The share cannot be higher than {MAX_PROTOCOL_FEE}.
+     */
+    function setProtocolFee(uint256 fee) external {
+        if (msg.sender != governor) revert Factory__Unauthorized();
+        if (fee > MAX_PROTOCOL_FEE) revert Factory__FeeTooHigh();
+        emit NewProtocolFee(protocolFee, fee);
+        protocolFee = fee;
+    }
+
     /**
      * @dev Allows the governor to update its address
      *
@@ -159,4 +232,145 @@ contract Factory is IFactory {
         emit NewGovernor(governor, _governor);
         governor = _governor;
     }
+
+    /**
+     * @dev Allows the governor to update the swap fee of every stable or volatile pair without a custom fee.
+     *
+     * @param stable If true it updates the fee of stable pairs. Otherwise, the fee of volatile pairs.
+     * @param fee The new swap fee. 1e18 is 100%.
+     *
+     * Requirements:
+     *
+     * - Only the governor can call this function
+     * - The fee cannot be higher than {MAX_SWAP_FEE}.
+     */
+    function setSwapFee(bool stable, uint256 fee) external {
+        if (msg.sender != governor) revert Factory__Unauthorized();
+        if (fee > MAX_SWAP_FEE) revert Factory__FeeTooHigh();
+
+        if (stable) {
+            emit NewSwapFee(true, stableSwapFee, fee);
+            stableSwapFee = fee;
+        } else {
+            emit NewSwapFee(false, volatileSwapFee, fee);
+            volatileSwapFee = fee;
+        }
+    }
+
+    /**
+     * @dev Allows the governor to give a pair a swap fee that overrides the fee of its curve type.
+     *
+     * @param pair The pair that will use the custom fee
+     * @param fee The new swap fee. 1e18 is 100%.
+     *
+     * Requirements:
+     *
+     * - Only the governor can call this function
+     * - `pair` must have been deployed by this contract.
+     * - The fee cannot be higher than {MAX_SWAP_FEE}.
+     */
+    function setPairSwapFee(address pair, uint256 fee) external {
+        if (msg.sender != governor) revert Factory__Unauthorized();
+        if (!isPair[pair]) revert Factory__NotAPair();
+        if (fee > MAX_SWAP_FEE) revert Factory__FeeTooHigh();
+
+        emit NewPairSwapFee(pair, this.getSwapFee(pair), fee);
+        _customSwapFees[pair] = CustomSwapFee(true, fee);
+    }
+
+    /**
+     * @dev Allows the governor to remove the custom fee of a pair, so it uses the fee of its curve type again.
+     *
+     * @param pair The pair that will stop using its custom fee
+     *
+     * Requirements:
+     *
+     * - Only the governor can call this function
+     */
+    function removePairSwapFee(address pair) external {
+        if (msg.sender != governor) revert Factory__Unauthorized();
+
+        emit RemovePairSwapFee(pair);
+        delete _customSwapFees[pair];
+    }
+
+    /**
+     * @dev Allows the governor to update the TWAP settings of the pairs created from now on. Existing pairs keep their settings.
+     *
+     * @param window The time the TWAP of a pair averages over
+     * @param granularity The number of observations in the window. The TWAP updates every `window` / `granularity` seconds.
+     *
+     * Requirements:
+     *
+     * - Only the governor can call this function
+     * - `granularity` must be between 2 and {MAX_TWAP_GRANULARITY}.
+     * - `window` must be a multiple of `granularity` and cannot be longer than {MAX_TWAP_WINDOW}.
+     */
+    function setTwap(uint256 window, uint256 granularity) external {
+        if (msg.sender != governor) revert Factory__Unauthorized();
+        _checkTwap(window, granularity);
+
+        emit NewTwap(window, granularity);
+        twapWindow = window;
+        twapGranularity = granularity;
+    }
+
+    /**
+     * @dev Allows the governor to change the TWAP settings of a single pair. The pair keeps its observations and grows its history if `granularity` needs more.
+     *
+     * @param pair The pair that will use the new settings
+     * @param window The time the TWAP of `pair` averages over
+     * @param granularity The number of observations in the window
+     *
+     * Requirements:
+     *
+     * - Only the governor can call this function
+     * - `pair` must have been deployed by this contract.
+     * - The settings must follow the requirements of {setTwap}.
+     */
+    function setPairTwap(
+        address pair,
+        uint256 window,
+        uint256 granularity
+    ) external {
+        if (msg.sender != governor) revert Factory__Unauthorized();
+        if (!isPair[pair]) revert Factory__NotAPair();
+        _checkTwap(window, granularity);
+
+        emit NewPairTwap(pair, window, granularity);
+        IPair(pair).setTwap(window, granularity);
+    }
+
+    /**
+     * @dev Deploys the creation code of {Pair} stored in {_pairCreationCode} with create2, the same as `new Pair{salt: salt}()`.
+     * It reverts with the error of the constructor of the pair if it fails.
+     */
+    function _deployPair(bytes32 salt) private returns (address pair) {
+        address pairCreationCode = _pairCreationCode;
+
+        assembly {
+            // Skip the STOP in front of the creation code
+            let size := sub(extcodesize(pairCreationCode), 1)
+            let ptr := mload(0x40)
+
+            extcodecopy(pairCreationCode, ptr, 1, size)
+
+            pair := create2(0, ptr, size, salt)
+
+            if iszero(pair) {
+                returndatacopy(0, 0, returndatasize())
+                revert(0, returndatasize())
+            }
+        }
+    }
+
+    function _checkTwap(uint256 window, uint256 granularity) private pure {
+        if (
+            granularity < 2 ||
+            granularity > MAX_TWAP_GRANULARITY ||
+            window < granularity ||
+            window > MAX_TWAP_WINDOW ||
+            window % granularity != 0
+        ) revert Factory__InvalidTwap();
+    }
 }
@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import "@interest-protocol/library/MathLib.sol";
+
+import "./errors/LPOracleErrors.sol";
+
+import "./interfaces/IFactory.sol";
+import "./interfaces/ILPOracle.sol";
+import "./interfaces/IPair.sol";
+
+/**
+ * @dev Prices the LP tokens of the pairs of {factory} with fair reserves instead of the reserves of the pair.
+ * The reserves can be moved by a swap within a block, but not the invariant of the pair or its TWAP. The fair reserves are the reserves at the TWAP price with the current invariant.
+ * Volatile pairs have a closed form, √(k · p0 · p1) for each reserve. Stable pairs are solved numerically on x3y+y3x.
+ */
+contract LPOracle is ILPOracle {
+    using MathLib for uint256;
+
+    address public immutable factory;
+
+    // The ratio of a stable pair is searched in an interval of less than 1e18, so it converges to 1 wei in less than 64 bisections
+    uint256 private constant STABLE_SEARCH_ITERATIONS = 64;
+
+    constructor(address _factory) {
+        factory = _factory;
+    }
+
+    /**
+     * @dev Returns the reserves of `pair` if it was arbitraged to the price of {Pair.getTwapPrice} without changing its invariant.
+     *
+     * @param pair A pair of {factory}
+     * @return fairReserve0 The fair reserve of token0
+     * @return fairReserve1 The fair reserve of token1
+     */
+    function getFairReserves(address pair)
+        external
+        view
+        returns (uint256 fairReserve0, uint256 fairReserve1)
+    {
+        (fairReserve0, fairReserve1, , ) = _getFairReserves(pair);
+    }
+
+    /**
+     * @dev The total supply of `pair` after its next mint or burn, which mints the protocol share of the swap fees to the treasury with {Pair._mintFee}.
+     * The LP tokens are worth their share of the reserves after this dilution.
+     */
+    function getTotalSupply(address pair)
+        public
+        view
+        returns (uint256 totalSupply)
+    {
+        totalSupply = IPair(pair).totalSupply();
+
+        uint256 kLast = IPair(pair).kLast();
+
+        if (IFactory(factory).feeTo() == address(0) || kLast == 0)
+            return totalSupply;
+
+        uint256 protocolFee = IFactory(factory).protocolFee();
+        uint256 rootK = _k(pair).sqrt();
+        uint256 rootKLast = kLast.sqrt();
+
+        // Same formula as {Pair._mintFee}
+        if (rootK > rootKLast)
+            totalSupply += (totalSupply * (rootK - rootKLast)).mulDiv(
+                protocolFee,
+                (rootK * (1e18 - protocolFee)) + (rootKLast * protocolFee)
+            );
+    }
+
+    /**
+     * @dev Values the fair reserves of `pair` in `quoteToken` at the TWAP price and divides them by the total supply after the pending protocol fees.
+     *
+     * @param pair A pair of {factory}
+     * @param quoteToken One of the tokens of `pair`
+     * @return uint256 The amount of `quoteToken` one LP token is worth
+     */
+    function getLPTokenPrice(address pair, address quoteToken)
+        external
+        view
+        returns (uint256)
+    {
+        (
+            uint256 fairReserve0,
+            uint256 fairReserve1,
+            uint256 price0,
+            uint256 unit0
+        ) = _getFairReserves(pair);
+
+        (address token0, address token1) = IPair(pair).tokens();
+
+        uint256 value;
+
+        if (quoteToken == token0)
+            value = fairReserve0 + fairReserve1.mulDiv(unit0, price0);
+        else if (quoteToken == token1)
+            value = fairReserve1 + fairReserve0.mulDiv(price0, unit0);
+        else revert LPOracle__InvalidToken();
+
+        return value.mulDiv(1 ether, getTotalSupply(pair));
+    }
+
+    // Also returns the TWAP price of one whole token0 in token1 and one whole token0, so the fair reserves can be valued in either token
+    function _getFairReserves(address pair)
+        private
+        view
+        returns (
+            uint256 fairReserve0,
+            uint256 fairReserve1,
+            uint256 price0,
+            uint256 unit0
+        )
+    {
+        if (!IFactory(factory).isPair(pair)) revert LPOracle__NotAPair();
+
+        (
+            address token0,
+            ,
+            bool stable,
+            ,
+            uint256 reserve0,
+            uint256 reserve1,
+            uint256 _unit0,
+            uint256 unit1
+        ) = IPair(pair).metadata();
+
+        if (reserve0 == 0 || reserve1 == 0) revert LPOracle__NoLiquidity();
+
+        unit0 = _unit0;
+        price0 = IPair(pair).getTwapPrice(token0, unit0);
+
+        if (!stable) {
+            // √(k · p0 · p1) in token1, as p1 is 1. Valuing reserve0 at the TWAP first keeps the product within 256 bits
+            fairReserve1 = (reserve0.mulDiv(price0, unit0) * reserve1).sqrt();
+            // The fair reserves have the same k
+            fairReserve0 = reserve0.mulDiv(reserve1, fairReserve1);
+
+            return (fairReserve0, fairReserve1, price0, unit0);
+        }
+
+        // The stable curve works on whole tokens with 18 decimals
+        uint256 x = reserve0.mulDiv(1 ether, unit0);
+        uint256 y = reserve1.mulDiv(1 ether, unit1);
+        uint256 price = price0.mulDiv(1 ether, unit1);
+
+        // The curve is symmetric, so the token with a price below 1 is always solved as x
+        if (price > 1 ether)
+            (y, x) = _getStableFairReserves(y, x, 1e36 / price);
+        else (x, y) = _getStableFairReserves(x, y, price);
+
+        fairReserve0 = x.mulDiv(unit0, 1 ether);
+        fairReserve1 = y.mulDiv(unit1, 1 ether);
+    }
+
+    /**
+     * @dev Fair reserves of x3y+y3x when one x is worth `price` y, which must be at most 1.
+     * The invariant is x^4 * g(y / x) with g(r) = r + r^3, so the fair x is x * (g(y / x) / g(r'))^1/4, where r' is the ratio at which the slope of the curve is `price`.
+     */
+    function _getStableFairReserves(
+        uint256 x,
+        uint256 y,
+        uint256 price
+    ) private pure returns (uint256 fairX, uint256 fairY) {
+        // The slope grows with the ratio and is between r and 3r when r is at most 1
+        uint256 low = price / 3;
+        uint256 high = price;
+
+        for (uint256 i; i < STABLE_SEARCH_ITERATIONS && high - low > 1; i++) {
+            uint256 mid = (low + high) / 2;
+
+            if (_getStableSlope(mid) < price) low = mid;
+            else high = mid;
+        }
+
+        fairX = x.fmul(_fourthRoot(_g(y.fdiv(x)).fdiv(_g(high))));
+        fairY = fairX.fmul(high);
+    }
+
+    // r(3 + r^2) / (1 + 3r^2), the price of x in y on x3y+y3x with r = y / x
+    function _getStableSlope(uint256 r) private pure returns (uint256) {
+        uint256 rSquared = r.fmul(r);
+
+        return r.mulDiv(3 ether + rSquared, 1 ether + 3 * rSquared);
+    }
+
+    function _g(uint256 r) private pure returns (uint256) {
+        return r + r.fmul(r).fmul(r);
+    }
+
+    function _fourthRoot(uint256 x) private pure returns (uint256) {
+        return ((x * 1 ether).sqrt() * 1 ether).sqrt();
+    }
+
+    // Same as {Pair._k} with the current reserves
+    function _k(address pair) private view returns (uint256) {
+        (
+            ,
+            ,
+            bool stable,
+            ,
+            uint256 reserve0,
+            uint256 reserve1,
+            uint256 unit0,
+            uint256 unit1
+        ) = IPair(pair).metadata();
+
+        if (!stable) return reserve0 * reserve1;
+
+        uint256 x = (reserve0 * 1e18) / unit0;
+        uint256 y = (reserve1 * 1e18) / unit1;
+
+        return (((x * y) / 1e18) * ((x * x) / 1e18 + (y * y) / 1e18)) / 1e18;
+    }
+}
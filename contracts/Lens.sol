@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import "@interest-protocol/library/SafeERC20MetadataLib.sol";
+
+import {PairInfo} from "./DataTypes.sol";
+
+import "./errors/LensErrors.sol";
+
+import "./interfaces/IFactory.sol";
+import "./interfaces/ILens.sol";
+import "./interfaces/IPair.sol";
+
+/**
+ * @dev Reads the pairs of {factory} and the positions of an account in them in one call, so a pool list does not need a call per pair and field.
+ * It is meant to be called off-chain with `eth_call`. Its gas cost grows with the number of pairs read.
+ */
+contract Lens is ILens {
+    using SafeERC20MetadataLib for address;
+
+    address public immutable factory;
+
+    constructor(address _factory) {
+        factory = _factory;
+    }
+
+    /**
+     * @dev Returns a page of {Factory.allPairs}. The page is shorter than `count` if it reaches the last pair, and empty if `start` is after it.
+     *
+     * @param start The index of the first pair in {Factory.allPairs}
+     * @param count The maximum number of pairs to return
+     * @param account The owner of the LP tokens. It can be the zero address to skip the positions
+     * @return pairs The pairs from `start` and the position of `account` in each
+     * @return allPairsLength The number of pairs of {factory}, so the caller knows when to stop
+     */
+    function getPairs(
+        uint256 start,
+        uint256 count,
+        address account
+    ) external view returns (PairInfo[] memory pairs, uint256 allPairsLength) {
+        allPairsLength = IFactory(factory).allPairsLength();
+
+        // Written so a `count` of type(uint256).max reads every pair without overflowing
+        uint256 end = start < allPairsLength && count < allPairsLength - start
+            ? start + count
+            : allPairsLength;
+
+        pairs = new PairInfo[](end > start ? end - start : 0);
+
+        for (uint256 i = start; i < end; i++) {
+            pairs[i - start] = _getPairInfo(
+                IFactory(factory).allPairs(i),
+                account
+            );
+        }
+    }
+
+    /**
+     * @param pair A pair of {factory}
+     * @param account The owner of the LP tokens. It can be the zero address to skip the position
+     * @return PairInfo The state of `pair` and the position of `account` in it
+     */
+    function getPairInfo(address pair, address account)
+        external
+        view
+        returns (PairInfo memory)
+    {
+        if (!IFactory(factory).isPair(pair)) revert Lens__NotAPair();
+
+        return _getPairInfo(pair, account);
+    }
+
+    function _getPairInfo(address pair, address account)
+        private
+        view
+        returns (PairInfo memory info)
+    {
+        (
+            address token0,
+            address token1,
+            bool stable,
+            uint256 swapFee,
+            uint256 reserve0,
+            uint256 reserve1,
+            uint256 unit0,
+
+        ) = IPair(pair).metadata();
+
+        info.pair = pair;
+        info.token0 = token0;
+        info.token1 = token1;
+        info.symbol0 = token0.safeSymbol();
+        info.symbol1 = token1.safeSymbol();
+        info.decimals0 = token0.safeDecimals();
+        info.decimals1 = token1.safeDecimals();
+        info.stable = stable;
+        info.reserve0 = reserve0;
+        info.reserve1 = reserve1;
+        info.swapFee = swapFee;
+        info.totalSupply = IPair(pair).totalSupply();
+
+        // The TWAP reverts if the observations do not cover its window
+        try IPair(pair).getTwapPrice(token0, unit0) returns (uint256) {
+            info.twapAvailable = true;
+        } catch {
+            info.twapAvailable = false;
+        }
+
+        if (account == address(0) || info.totalSupply == 0) return info;
+
+        info.balance = IPair(pair).balanceOf(account);
+        // {Pair.burn} pays out of the balances of the pair, which only differ from the reserves by donations
+        info.amount0 = (info.balance * reserve0) / info.totalSupply;
+        info.amount1 = (info.balance * reserve1) / info.totalSupply;
+    }
+}
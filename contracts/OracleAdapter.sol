@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import "@interest-protocol/library/SafeERC20MetadataLib.sol";
+
+import "./errors/OracleAdapterErrors.sol";
+import "./errors/PairErrors.sol";
+
+import "./interfaces/IOracleAdapter.sol";
+import "./interfaces/IPair.sol";
+
+/**
+ * @dev Exposes the TWAP of {Pair.getTokenPrice} through the interface of the Chainlink price feeds.
+ * The answer is the amount of {tokenOut} one whole {tokenIn} is worth, quoted through a chain of pairs, e.g. TOKEN -> WNT -> USDC.
+ * A stale TWAP is not an error. It is reported with an answer and an `updatedAt` of 0, so the consumers reject it with their usual staleness checks.
+ */
+contract OracleAdapter is IOracleAdapter {
+    using SafeERC20MetadataLib for address;
+
+    // A longer chain of pairs adds little liquidity and one more oracle to go stale
+    uint256 public constant MAX_HOPS = 3;
+
+    uint256 public constant version = 1;
+
+    address public immutable tokenIn;
+    address public immutable tokenOut;
+
+    // Decimals of {tokenOut}, as the answer is an amount of it
+    uint8 public immutable decimals;
+
+    // One whole {tokenIn}
+    uint256 private immutable _unitIn;
+
+    // e.g. "WNT / USDC"
+    string public description;
+
+    // The pairs of each hop and the tokens sold on each hop followed by {tokenOut}
+    address[] private _pairs;
+    address[] private _path;
+
+    /**
+     * @param pairs The pairs to quote through, in order
+     * @param _tokenIn The token to price. It must be a token of the first pair
+     *
+     * Requirements:
+     *
+     * - There must be between 1 and {MAX_HOPS} pairs
+     * - Every pair must have the token bought on the previous hop
+     */
+    constructor(address[] memory pairs, address _tokenIn) {
+        uint256 length = pairs.length;
+
+        if (length == 0 || length > MAX_HOPS)
+            revert OracleAdapter__InvalidPath();
+
+        address token = _tokenIn;
+        _path.push(token);
+
+        for (uint256 i; i < length; i++) {
+            (address token0, address token1) = IPair(pairs[i]).tokens();
+
+            if (token == token0) token = token1;
+            else if (token == token1) token = token0;
+            else revert OracleAdapter__InvalidPath();
+
+            _pairs.push(pairs[i]);
+            _path.push(token);
+        }
+
+        tokenIn = _tokenIn;
+        tokenOut = token;
+        decimals = uint8(token.safeDecimals());
+        _unitIn = 10**_tokenIn.safeDecimals();
+
+        description = string(
+            abi.encodePacked(_tokenIn.safeSymbol(), " / ", token.safeSymbol())
+        );
+    }
+
+    function getPairs() external view returns (address[] memory) {
+        return _pairs;
+    }
+
+    function getPath() external view returns (address[] memory) {
+        return _path;
+    }
+
+    /**
+     * @dev The TWAP has no rounds, so it is always a new round at the current timestamp.
+     *
+     * @return roundId The timestamp of the answer
+     * @return answer The amount of {tokenOut} one whole {tokenIn} is worth. 0 if a pair of the path has a stale TWAP
+     * @return startedAt Same as `updatedAt`
+     * @return updatedAt The current timestamp, or 0 if a pair of the path has a stale TWAP
+     * @return answeredInRound Same as `roundId`
+     */
+    function latestRoundData()
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        uint256 amount = _unitIn;
+        uint256 length = _pairs.length;
+
+        for (uint256 i; i < length; i++) {
+            try IPair(_pairs[i]).getTokenPrice(_path[i], amount) returns (
+                uint256 amountOut
+            ) {
+                amount = amountOut;
+            } catch (bytes memory reason) {
+                if (bytes4(reason) != Pair__MissingObservation.selector) {
+                    //solhint-disable-next-line no-inline-assembly
+                    assembly {
+                        revert(add(reason, 32), mload(reason))
+                    }
+                }
+
+                return (0, 0, 0, 0, 0);
+            }
+        }
+
+        roundId = uint80(block.timestamp);
+
+        return (
+            roundId,
+            int256(amount),
+            block.timestamp,
+            block.timestamp,
+            roundId
+        );
+    }
+
+    /**
+     * @dev The TWAP is computed on every call and past answers are not stored.
+     */
+    function getRoundData(uint80)
+        external
+        pure
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        revert OracleAdapter__NoRoundData();
+    }
+}
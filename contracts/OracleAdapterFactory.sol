@@ -0,0 +1,97 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import "./errors/OracleAdapterFactoryErrors.sol";
+
+import "./interfaces/IFactory.sol";
+import "./interfaces/IOracleAdapterFactory.sol";
+
+import "./OracleAdapter.sol";
+
+/**
+ * @dev Deploys one {OracleAdapter} per chain of pairs and direction. Only the pairs of {factory} can be used, so every adapter reads a TWAP of the protocol.
+ */
+contract OracleAdapterFactory is IOracleAdapterFactory {
+    address public immutable factory;
+
+    // A list of all adapters deployed by this contract
+    address[] public allAdapters;
+    // Quick way to verify if an adapter has been deployed by this contract
+    mapping(address => bool) public isAdapter;
+
+    // Hash of the pairs and the token in -> adapter
+    mapping(bytes32 => address) private _adapters;
+
+    constructor(address _factory) {
+        factory = _factory;
+    }
+
+    /**
+     *@return uint256 The number of adapters deployed
+     */
+    function allAdaptersLength() external view returns (uint256) {
+        return allAdapters.length;
+    }
+
+    /**
+     * @return address The adapter of `pairs` that prices `tokenIn`, or the zero address if it was not created
+     */
+    function getAdapter(address[] calldata pairs, address tokenIn)
+        external
+        view
+        returns (address)
+    {
+        return _adapters[_getSalt(pairs, tokenIn)];
+    }
+
+    /**
+     * @dev Deploys an adapter using create2 and the arguments as the salt
+     *
+     * @param pairs The pairs to quote through, in order
+     * @param tokenIn The token to price. It must be a token of the first pair
+     *
+     * Requirements:
+     *
+     * - Every pair must be deployed by {factory}
+     * - There must be no adapter of `pairs` and `tokenIn`
+     * - The path must be valid, see {OracleAdapter}
+     */
+    function createAdapter(address[] calldata pairs, address tokenIn)
+        external
+        returns (address adapter)
+    {
+        uint256 length = pairs.length;
+
+        for (uint256 i; i < length; i++) {
+            if (!IFactory(factory).isPair(pairs[i]))
+                revert OracleAdapterFactory__NotAPair();
+        }
+
+        bytes32 salt = _getSalt(pairs, tokenIn);
+
+        if (_adapters[salt] != address(0))
+            revert OracleAdapterFactory__AlreadyDeployed();
+
+        adapter = address(new OracleAdapter{salt: salt}(pairs, tokenIn));
+
+        _adapters[salt] = adapter;
+        allAdapters.push(adapter);
+        isAdapter[adapter] = true;
+
+        emit AdapterCreated(
+            tokenIn,
+            OracleAdapter(adapter).tokenOut(),
+            pairs,
+            adapter,
+            allAdapters.length
+        );
+    }
+
+    function _getSalt(address[] calldata pairs, address tokenIn)
+        private
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encodePacked(pairs, tokenIn));
+    }
+}
@@ -77,6 +77,13 @@ contract Pair is IPair, SafeTransferErrors {
     // Accumulate the reserves * timestamp to calculate a TWAP
     uint256 public reserve0CumulativeLast;
     uint256 public reserve1CumulativeLast;
+
+    // Accumulate the price of each token * timestamp. Unlike the reserves, the price does not change when liquidity is added or removed
+    // A price is the amount of the other token one whole token is worth, with 18 decimals
+    uint256 public price0CumulativeLast;
+    uint256 public price1CumulativeLast;
+    // Prices are capped, so the price cumulatives cannot wrap around within the window of a TWAP
+    uint256 private constant MAX_PRICE = type(uint128).max;
     uint256 public kLast; // reserve0 * reserve1, as of immediately after the most recent liquidity event
 
     /*//////////////////////////////////////////////////////////////
@@ -86,9 +93,6 @@ contract Pair is IPair, SafeTransferErrors {
     // If true a pair follows the curve formula
     bool public immutable stable;
 
-    // Fee charged during swaps.
-    uint256 private immutable swapFee;
-
     // Minimum amount of tokens to avoid 0 divisions.
     uint256 private constant MINIMUM_LIQUIDITY = 1000;
 
@@ -96,12 +100,19 @@ contract Pair is IPair, SafeTransferErrors {
                               TWAP storage
     //////////////////////////////////////////////////////////////*/
 
-    // Settings for the TWAP
-    uint256 private constant WINDOW = 15 minutes;
-    uint256 private constant GRANULARITY = 5; // TWAP updates every 3 minutes
-    uint256 private constant PERIOD_SIZE = 3 minutes;
+    // Settings for the TWAP. They start as the defaults of the factory, and its governor can change them with {Factory.setPairTwap}
+    uint64 public twapWindow;
+    uint64 public twapGranularity; // Minimum number of observations, so the history always covers the window
+    uint64 public twapPeriodSize; // {twapWindow} / {twapGranularity}, a new observation is recorded at most once per period
+
+    // Position of the ring buffer of observations. They share a slot with the settings, as {_sync} reads all of them
+    uint16 public observationIndex; // Index of the last observation
+    uint16 public observationCardinality; // Number of observations in use. It grows to {observationLength} when the buffer wraps
 
-    // Reserve observations for the TWAP
+    // Timestamp of the observations that are paid for but not recorded yet
+    uint256 private constant UNINITIALIZED = 1;
+
+    // Ring buffer of reserve observations for the TWAP
     Observation[] public observations;
 
     /*//////////////////////////////////////////////////////////////
@@ -114,9 +125,6 @@ contract Pair is IPair, SafeTransferErrors {
         // Save init data to storage to save gas due to yul optimizer
         (token0, token1, stable) = IFactory(msg.sender).getInitializable();
 
-        // Save gas
-        uint256 fee;
-
         string memory token0Symbol = token0.safeSymbol();
         string memory token1Symbol = token1.safeSymbol();
 
@@ -130,7 +138,6 @@ contract Pair is IPair, SafeTransferErrors {
                     token1Symbol
                 )
             );
-            fee = 0.0005e18;
             // e.g. vILP-USDC/USDT
             symbol = string(
                 abi.encodePacked("sILP-", token0Symbol, "/", token1Symbol)
@@ -146,30 +153,26 @@ contract Pair is IPair, SafeTransferErrors {
                 )
             );
 
-            fee = 0.003e18;
-
             // e.g. vILP-USDC/USDT
             symbol = string(
                 abi.encodePacked("vILP-", token0Symbol, "/", token1Symbol)
             );
         }
 
-        // Set the swap fee. 0.05% for stable swaps and 0.3% for volatile swaps
-        swapFee = fee;
-
         unchecked {
             // Set decimals in terms of 1 unit
             decimals0 = 10**token0.safeDecimals();
             decimals1 = 10**token1.safeDecimals();
         }
 
-        // Need to call {GRANULATIRY times}
-        // populate the observations array with empty observations
-        observations.push();
-        observations.push();
-        observations.push();
-        observations.push();
-        observations.push();
+        // The first observation starts the ring buffer, and {_setTwap} extends it to {twapGranularity} observations
+        observations.push(Observation(block.timestamp, 0, 0, 0, 0));
+        observationCardinality = 1;
+
+        _setTwap(
+            IFactory(msg.sender).twapWindow(),
+            IFactory(msg.sender).twapGranularity()
+        );
 
         _HASHED_NAME = keccak256(bytes(name));
         _HASHED_VERSION = keccak256(bytes("1"));
@@ -347,7 +350,7 @@ contract Pair is IPair, SafeTransferErrors {
     //////////////////////////////////////////////////////////////*/
 
     /**
-     * @dev Returns the total number of observations stored in this pair. Note: that an earlier index observation does not mean it happened beforehand.
+     * @dev Returns the number of observations the pair has paid for. {observationCardinality} grows to it when the ring buffer wraps.
      * @return uint256 The number of observations
      */
     function observationLength() external view returns (uint256) {
@@ -355,44 +358,143 @@ contract Pair is IPair, SafeTransferErrors {
     }
 
     /**
-     * @dev returns the observation from the oldest epoch (at the beginning of the window) relative to the current time
+     * @dev Pays for more observations, so the pair keeps a longer history for {observe} and {consult}. Anyone can call it.
+     * The swaps start recording the new observations when the ring buffer wraps.
      *
-     * @return firstObservation the first observation of the current epoch considering the TWAP is up to date.
+     * @param cardinalityNext The number of observations to keep. Nothing happens if the pair already has as many.
+     */
+    function increaseObservationCardinalityNext(uint16 cardinalityNext)
+        external
+        lock
+    {
+        _growObservations(cardinalityNext);
+    }
+
+    /**
+     * @dev returns the oldest observation in the window, which starts {twapWindow} seconds ago.
+     *
+     * @return firstObservation the first observation in the window. It is empty if the pair has not recorded an observation in the window.
      */
     function getFirstObservationInWindow()
         public
         view
         returns (Observation memory firstObservation)
     {
-        unchecked {
-            uint256 observationIndex = observationIndexOf(block.timestamp);
-            // no overflow issue. if observationIndex + 1 overflows, result is still zero.
-            uint256 firstObservationIndex = (observationIndex + 1) %
-                GRANULARITY;
-            firstObservation = observations[firstObservationIndex];
+        uint256 target = block.timestamp - twapWindow;
+        (uint256 index, uint256 cardinality) = (
+            observationIndex,
+            observationCardinality
+        );
+
+        // The pair has not traded in the window
+        if (observations[index].timestamp < target) return firstObservation;
+
+        firstObservation = _getOldestObservation(index, cardinality);
+
+        if (firstObservation.timestamp >= target) return firstObservation;
+
+        (
+            Observation memory beforeOrAt,
+            Observation memory atOrAfter
+        ) = _binarySearch(target, index, cardinality);
+
+        firstObservation = beforeOrAt.timestamp == target
+            ? beforeOrAt
+            : atOrAfter;
+    }
+
+    /**
+     * @dev Returns the cumulative reserves at `secondsAgos` seconds before now. Times between two observations are interpolated linearly.
+     * The difference of two results divided by the seconds between them are the average reserves, e.g. [3600, 0] returns a 1 hour TWAP.
+     *
+     * @param secondsAgos How long ago each cumulative reserves are from
+     * @return reserve0Cumulatives The cumulative reserves of token0 at each time
+     * @return reserve1Cumulatives The cumulative reserves of token1 at each time
+     *
+     * Requirements:
+     *
+     * - No time can be before the oldest observation. {increaseObservationCardinalityNext} keeps a longer history.
+     */
+    function observe(uint32[] calldata secondsAgos)
+        external
+        view
+        returns (
+            uint256[] memory reserve0Cumulatives,
+            uint256[] memory reserve1Cumulatives
+        )
+    {
+        uint256 length = secondsAgos.length;
+
+        reserve0Cumulatives = new uint256[](length);
+        reserve1Cumulatives = new uint256[](length);
+
+        for (uint256 i; i < length; i++) {
+            Observation memory observation = _observeAt(
+                block.timestamp - secondsAgos[i]
+            );
+
+            reserve0Cumulatives[i] = observation.reserve0Cumulative;
+            reserve1Cumulatives[i] = observation.reserve1Cumulative;
         }
     }
 
     /**
-     * @dev A helper function to find the index of a timestamp
+     * @dev Same as {observe} with the cumulative marginal prices of {getTwapPrice}, which adding or removing liquidity cannot skew.
+     *
+     * @param secondsAgos How long ago each cumulative prices are from
+     * @return price0Cumulatives The cumulative prices of token0 in token1 at each time, with 18 decimals
+     * @return price1Cumulatives The cumulative prices of token1 in token0 at each time, with 18 decimals
+     *
+     * Requirements:
      *
-     * @param timestamp The function returns in which index the data for this timestamp is saved on {pairObservations}.
-     * @return index The index of the `timestamp` in {pairObservations}.
+     * - No time can be before the oldest observation. {increaseObservationCardinalityNext} keeps a longer history.
      */
-    function observationIndexOf(uint256 timestamp)
-        public
-        pure
-        returns (uint256)
+    function observePrices(uint32[] calldata secondsAgos)
+        external
+        view
+        returns (
+            uint256[] memory price0Cumulatives,
+            uint256[] memory price1Cumulatives
+        )
     {
-        // Split the total time by the period size to get a time slot.
-        // If {WINDOW_SIZE} is 24 hours, {GRANULARITY} is 4 hours and {PERIOD_SIZE} is 6 hours.
-        // E.g. In a `timestamp` of 72 hours, if we divide by a period size of 6 would give us 12.
-        // 12 % 4 would give us index 0.
-        unchecked {
-            return (timestamp / PERIOD_SIZE) % GRANULARITY;
+        uint256 length = secondsAgos.length;
+
+        price0Cumulatives = new uint256[](length);
+        price1Cumulatives = new uint256[](length);
+
+        for (uint256 i; i < length; i++) {
+            Observation memory observation = _observeAt(
+                block.timestamp - secondsAgos[i]
+            );
+
+            price0Cumulatives[i] = observation.price0Cumulative;
+            price1Cumulatives[i] = observation.price1Cumulative;
         }
     }
 
+    /**
+     * @dev Same as {getTokenPrice} with the average reserves of the last `secondsAgo` seconds, so integrators can pick their own window.
+     *
+     * @param tokenIn Either token0 or token1. The price is in the other token.
+     * @param amountIn How many units of `tokenIn` to price
+     * @param secondsAgo The length of the window. The pair must have observations that old.
+     * @return amountOut The amount of the other token `amountIn` is worth
+     */
+    function consult(
+        address tokenIn,
+        uint256 amountIn,
+        uint32 secondsAgo
+    ) external view returns (uint256 amountOut) {
+        if (secondsAgo == 0) revert Pair__ZeroSecondsAgo();
+
+        amountOut = _quoteAverageReserves(
+            _observeAt(block.timestamp - secondsAgo),
+            secondsAgo,
+            tokenIn,
+            amountIn
+        );
+    }
+
     /**
      * @dev Calculates the current cumulative reserves without updating the state to save gas.
      */
@@ -405,25 +507,13 @@ contract Pair is IPair, SafeTransferErrors {
             uint256 blockTimestamp
         )
     {
-        // Save gas
-        blockTimestamp = block.timestamp;
-        reserve0Cumulative = reserve0CumulativeLast;
-        reserve1Cumulative = reserve1CumulativeLast;
+        Observation memory current = _observeAt(block.timestamp);
 
-        // Get the last recorded reserves by the pair.
-        // if time has elapsed since the last update on the pair, mock the accumulated price values
-
-        uint256 _blockTimestampLast = blockTimestampLast;
-
-        if (_blockTimestampLast != blockTimestamp) {
-            // overflow is desired
-            unchecked {
-                uint256 timeElapsed = blockTimestamp - _blockTimestampLast;
-
-                reserve0Cumulative += reserve0 * timeElapsed;
-                reserve1Cumulative += reserve1 * timeElapsed;
-            }
-        }
+        (reserve0Cumulative, reserve1Cumulative, blockTimestamp) = (
+            current.reserve0Cumulative,
+            current.reserve1Cumulative,
+            block.timestamp
+        );
     }
 
     /**
@@ -433,51 +523,62 @@ contract Pair is IPair, SafeTransferErrors {
      * @param amountIn How many units of `tokenIn` we wish to trade for.
      * @return amountOut  the amount out corresponding to the amount in for a given token using the moving average over the time
      * range [now - [windowSize, windowSize - periodSize * 2], now]
-     * update must have been called for the bucket corresponding to timestamp `now - windowSize`. Every 2 hours in the swap function.
+     * update must have been called for the bucket corresponding to timestamp `now - windowSize`. Once every {twapPeriodSize} in the swap function.
      */
     function getTokenPrice(address tokenIn, uint256 amountIn)
         external
         view
         returns (uint256 amountOut)
     {
-        // Find the first observation in the 24 hour window.
+        // Find the first observation in the window.
         Observation memory firstObservation = getFirstObservationInWindow();
 
-        // Find out how much time has passed since the last observation. Should be less than 24 hours or the price is stale.
-        uint256 timeElapsed;
+        amountOut = _quoteAverageReserves(
+            firstObservation,
+            _getTimeElapsedInWindow(firstObservation),
+            tokenIn,
+            amountIn
+        );
+    }
 
-        unchecked {
-            timeElapsed = block.timestamp - firstObservation.timestamp;
-            // Only happens if the pair has low trading activity.
-            if (timeElapsed > WINDOW) revert Pair__MissingObservation();
+    /**
+     * @dev Calculates a price in the opposite token of `tokenIn` with the time-weighted average price of the window of {getTokenPrice}.
+     * Adding or removing liquidity changes the reserves but not the price, so it cannot skew the average like it skews the average reserves.
+     * It has no price impact, so it quotes `amountIn` at the average marginal price of the curve.
+     *
+     * @param tokenIn Either token0 or token1. The price is in the other token.
+     * @param amountIn How many units of `tokenIn` to price
+     * @return amountOut The amount of the other token `amountIn` is worth
+     */
+    function getTwapPrice(address tokenIn, uint256 amountIn)
+        external
+        view
+        returns (uint256 amountOut)
+    {
+        Observation memory firstObservation = getFirstObservationInWindow();
 
-            // should never happen if the case above passes.
-            assert(timeElapsed >= WINDOW - PERIOD_SIZE * 2);
-        }
-        // Get the current cumulative reserves.
-        (
-            uint256 reserve0Cumulative,
-            uint256 reserve1Cumulative,
+        uint256 timeElapsed = _getTimeElapsedInWindow(firstObservation);
 
-        ) = currentCumulativeReserves();
+        Observation memory lastObservation = _observeAt(block.timestamp);
 
-        // Calculate a time-weighted average reserve amounts based on an older observation and current
-        uint256 _reserve0;
+        bool isToken0 = tokenIn == token0;
 
-        uint256 _reserve1;
+        uint256 price;
 
+        // Overflow is desired
         unchecked {
-            _reserve0 =
-                (reserve0Cumulative - firstObservation.reserve0Cumulative) /
-                timeElapsed;
-
-            _reserve1 =
-                (reserve1Cumulative - firstObservation.reserve1Cumulative) /
-                timeElapsed;
+            price = isToken0
+                ? (lastObservation.price0Cumulative -
+                    firstObservation.price0Cumulative) / timeElapsed
+                : (lastObservation.price1Cumulative -
+                    firstObservation.price1Cumulative) / timeElapsed;
         }
 
-        // Calculate he price in the opposite token
-        amountOut = _computeAmountOut(amountIn, tokenIn, _reserve0, _reserve1);
+        (uint256 decimalsIn, uint256 decimalsOut) = isToken0
+            ? (decimals0, decimals1)
+            : (decimals1, decimals0);
+
+        amountOut = amountIn.mulDiv(price * decimalsOut, 1 ether * decimalsIn);
     }
 
     /**
@@ -491,6 +592,15 @@ contract Pair is IPair, SafeTransferErrors {
                             Pair View
     //////////////////////////////////////////////////////////////*/
 
+    /**
+     * @dev The fee is set by the governor of the factory, so it is read on every call.
+     *
+     * @return uint256 The fee charged on the amount in of a swap. 1e18 is 100%.
+     */
+    function swapFee() public view returns (uint256) {
+        return IFactory(factory).getSwapFee(address(this));
+    }
+
     /**
      * @dev Returns relevant metadata of this pair.
      */
@@ -512,7 +622,7 @@ contract Pair is IPair, SafeTransferErrors {
             token0,
             token1,
             stable,
-            swapFee,
+            swapFee(),
             reserve0,
             reserve1,
             decimals0,
@@ -715,13 +825,14 @@ contract Pair is IPair, SafeTransferErrors {
             _balance0 = IERC20(_token0).balanceOf(address(this)); // since we removed tokens, we need to reconfirm balances, can also simply use previous balance - amountIn/ 10000, but doing balanceOf again as safety check
             _balance1 = IERC20(_token1).balanceOf(address(this));
             // The curve, either x3y+y3x for stable pools, or x*y for volatile pools
+            uint256 fee = swapFee();
 
             // Value in the pool must be greater or equal after the swap.
             if (
                 _k(_reserve0, _reserve1) >
                 _k(
-                    _balance0 - amount0In.fmul(swapFee),
-                    _balance1 - amount1In.fmul(swapFee)
+                    _balance0 - amount0In.fmul(fee),
+                    _balance1 - amount1In.fmul(fee)
                 )
             ) revert Pair__K();
         }
@@ -766,6 +877,23 @@ contract Pair is IPair, SafeTransferErrors {
         );
     }
 
+    /**
+     * @dev Changes the window and the granularity of the TWAP. The factory validates them.
+     * The observations do not depend on the period size, so they are kept. The ring buffer grows if it is shorter than `granularity`.
+     *
+     * @param window The new {twapWindow}
+     * @param granularity The new {twapGranularity}
+     *
+     * Requirements:
+     *
+     * - Only the factory can call this function.
+     */
+    function setTwap(uint256 window, uint256 granularity) external lock {
+        if (msg.sender != factory) revert Pair__Unauthorized();
+
+        _setTwap(window, granularity);
+    }
+
     /**
      * @dev Calculate how many tokens a swap will return
      *
@@ -780,28 +908,60 @@ contract Pair is IPair, SafeTransferErrors {
     {
         unchecked {
             // Remove the fee
-            amountIn -= amountIn.fmul(swapFee); // remove fee from amount received
+            amountIn -= amountIn.fmul(swapFee()); // remove fee from amount received
         }
         return _computeAmountOut(amountIn, tokenIn, reserve0, reserve1);
     }
 
+    /**
+     * @dev Calculate how many tokens a swap needs to buy `amountOut`. It rounds up, so the swap always passes the K check.
+     *
+     * @param tokenOut The token to be bought
+     * @param amountOut Number of `tokenOut` to buy
+     * @return uint256 The number of the other token to send, fee included
+     */
+    function getAmountIn(address tokenOut, uint256 amountOut)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 amountIn = _computeAmountIn(
+            amountOut,
+            tokenOut,
+            reserve0,
+            reserve1
+        );
+
+        if (amountIn == 0) return 0;
+
+        // Add the fee. {swap} removes it rounding down, so the extra wei covers it
+        return amountIn.fdiv(1e18 - swapFee()) + 1;
+    }
+
     // From uniswap
-    // if fee is on, mint liquidity equivalent to 1/6th of the growth in sqrt(k)
+    // if fee is on, mint liquidity equivalent to the protocol fee share of the growth in sqrt(k)
     function _mintFee(uint256 _reserve0, uint256 _reserve1)
         private
         returns (bool feeOn)
     {
         address feeTo = IFactory(factory).feeTo();
-        feeOn = feeTo != address(0);
+        uint256 protocolFee = feeTo == address(0)
+            ? 0
+            : IFactory(factory).protocolFee();
+        feeOn = protocolFee > 0;
         uint256 _kLast = kLast; // gas savings
         if (feeOn) {
             if (_kLast > 0) {
                 uint256 rootK = MathLib.sqrt(_k(_reserve0, _reserve1));
                 uint256 rootKLast = MathLib.sqrt(_kLast);
                 if (rootK > rootKLast) {
-                    uint256 numerator = totalSupply * (rootK - rootKLast);
-                    uint256 denominator = (rootK * 5) + rootKLast;
-                    uint256 liquidity = numerator / denominator;
+                    // Uniswap's formula with a share of 1/6 is totalSupply * (rootK - rootKLast) / (rootK * 5 + rootKLast)
+                    uint256 liquidity = (totalSupply * (rootK - rootKLast))
+                        .mulDiv(
+                            protocolFee,
+                            (rootK * (1e18 - protocolFee)) +
+                                (rootKLast * protocolFee)
+                        );
                     if (liquidity > 0) _mint(feeTo, liquidity);
                 }
             }
@@ -810,6 +970,280 @@ contract Pair is IPair, SafeTransferErrors {
         }
     }
 
+    /**
+     * @dev Saves the TWAP settings. The ring buffer needs an observation per period to cover the window.
+     */
+    function _setTwap(uint256 window, uint256 granularity) private {
+        twapWindow = uint64(window);
+        twapGranularity = uint64(granularity);
+        twapPeriodSize = uint64(window / granularity);
+
+        _growObservations(granularity);
+    }
+
+    /**
+     * @dev Allocates observations up to `cardinalityNext`. Their timestamp is written now, so the swaps that record them pay less gas.
+     */
+    function _growObservations(uint256 cardinalityNext) private {
+        uint256 length = observations.length;
+
+        if (cardinalityNext <= length) return;
+
+        for (uint256 i = length; i < cardinalityNext; i++)
+            observations.push(Observation(UNINITIALIZED, 0, 0, 0, 0));
+
+        emit IncreaseObservationCardinalityNext(length, cardinalityNext);
+    }
+
+    /**
+     * @dev Returns the cumulative reserves and prices at `target`. They are extrapolated after the last sync, as the reserves have not changed, and are interpolated between two observations before it.
+     */
+    function _observeAt(uint256 target)
+        private
+        view
+        returns (Observation memory)
+    {
+        uint256 _blockTimestampLast = blockTimestampLast;
+
+        Observation memory current = Observation(
+            _blockTimestampLast,
+            reserve0CumulativeLast,
+            reserve1CumulativeLast,
+            price0CumulativeLast,
+            price1CumulativeLast
+        );
+
+        if (target >= _blockTimestampLast) {
+            (uint256 _reserve0, uint256 _reserve1) = (reserve0, reserve1);
+
+            if (_reserve0 == 0 || _reserve1 == 0) return current;
+
+            (uint256 price0, uint256 price1) = _getPrices(_reserve0, _reserve1);
+
+            // Overflow is desired
+            unchecked {
+                uint256 timeElapsed = target - _blockTimestampLast;
+
+                current.timestamp = target;
+                current.reserve0Cumulative += _reserve0 * timeElapsed;
+                current.reserve1Cumulative += _reserve1 * timeElapsed;
+                current.price0Cumulative += price0 * timeElapsed;
+                current.price1Cumulative += price1 * timeElapsed;
+            }
+
+            return current;
+        }
+
+        (uint256 index, uint256 cardinality) = (
+            observationIndex,
+            observationCardinality
+        );
+
+        Observation memory last = observations[index];
+
+        if (target >= last.timestamp)
+            return _interpolate(last, current, target);
+
+        if (target < _getOldestObservation(index, cardinality).timestamp)
+            revert Pair__MissingObservation();
+
+        (
+            Observation memory beforeOrAt,
+            Observation memory atOrAfter
+        ) = _binarySearch(target, index, cardinality);
+
+        return _interpolate(beforeOrAt, atOrAfter, target);
+    }
+
+    /**
+     * @dev Finds the observations around `target`. The oldest observation must be at or before `target`, and the last one after it.
+     * The ring buffer is sorted from the observation after `index`, and its slots that were not recorded yet come first.
+     */
+    function _binarySearch(
+        uint256 target,
+        uint256 index,
+        uint256 cardinality
+    )
+        private
+        view
+        returns (Observation memory beforeOrAt, Observation memory atOrAfter)
+    {
+        // Oldest observation
+        uint256 l = (index + 1) % cardinality;
+        // Last observation
+        uint256 r = l + cardinality - 1;
+
+        while (true) {
+            uint256 i = (l + r) / 2;
+
+            beforeOrAt = observations[i % cardinality];
+
+            if (beforeOrAt.timestamp == UNINITIALIZED) {
+                l = i + 1;
+                continue;
+            }
+
+            atOrAfter = observations[(i + 1) % cardinality];
+
+            if (beforeOrAt.timestamp > target) r = i - 1;
+            else if (atOrAfter.timestamp < target) l = i + 1;
+            else break;
+        }
+    }
+
+    // Returns the observation after `index`, or the first one if the ring buffer has not wrapped yet
+    function _getOldestObservation(uint256 index, uint256 cardinality)
+        private
+        view
+        returns (Observation memory oldest)
+    {
+        oldest = observations[(index + 1) % cardinality];
+
+        if (oldest.timestamp == UNINITIALIZED) oldest = observations[0];
+    }
+
+    // Cumulative reserves and prices at `target`, which is between the timestamps of `start` and `end`
+    function _interpolate(
+        Observation memory start,
+        Observation memory end,
+        uint256 target
+    ) private pure returns (Observation memory) {
+        // Overflow is desired
+        unchecked {
+            uint256 timeElapsed = end.timestamp - start.timestamp;
+            uint256 offset = target - start.timestamp;
+
+            return
+                Observation(
+                    target,
+                    start.reserve0Cumulative +
+                        ((end.reserve0Cumulative - start.reserve0Cumulative) *
+                            offset) /
+                        timeElapsed,
+                    start.reserve1Cumulative +
+                        ((end.reserve1Cumulative - start.reserve1Cumulative) *
+                            offset) /
+                        timeElapsed,
+                    start.price0Cumulative +
+                        ((end.price0Cumulative - start.price0Cumulative) *
+                            offset) /
+                        timeElapsed,
+                    start.price1Cumulative +
+                        ((end.price1Cumulative - start.price1Cumulative) *
+                            offset) /
+                        timeElapsed
+                );
+        }
+    }
+
+    // Quotes `amountIn` at the average reserves of the `timeElapsed` seconds since `start`
+    function _quoteAverageReserves(
+        Observation memory start,
+        uint256 timeElapsed,
+        address tokenIn,
+        uint256 amountIn
+    ) private view returns (uint256) {
+        Observation memory end = _observeAt(block.timestamp);
+
+        uint256 _reserve0;
+        uint256 _reserve1;
+
+        // Overflow is desired
+        unchecked {
+            _reserve0 =
+                (end.reserve0Cumulative - start.reserve0Cumulative) /
+                timeElapsed;
+            _reserve1 =
+                (end.reserve1Cumulative - start.reserve1Cumulative) /
+                timeElapsed;
+        }
+
+        return _computeAmountOut(amountIn, tokenIn, _reserve0, _reserve1);
+    }
+
+    /**
+     * @dev Returns the seconds since `firstObservation`, which must be close to {twapWindow}.
+     */
+    function _getTimeElapsedInWindow(Observation memory firstObservation)
+        private
+        view
+        returns (uint256 timeElapsed)
+    {
+        uint256 window = twapWindow;
+
+        unchecked {
+            timeElapsed = block.timestamp - firstObservation.timestamp;
+            // Only happens if the pair has low trading activity.
+            if (timeElapsed > window) revert Pair__MissingObservation();
+
+            // The first observation is too recent, because the pair is younger than the window or stopped trading within it.
+            if (timeElapsed < window - twapPeriodSize * 2)
+                revert Pair__MissingObservation();
+        }
+    }
+
+    /**
+     * @dev Returns the marginal price of each token in the other, i.e. the amount of the other token one whole token is worth, with 18 decimals.
+     * Volatile pairs price at the ratio of the reserves. Stable pairs price at the slope of x3y+y3x, r(3 + r^2) / (1 + 3r^2) with r = y / x.
+     * The prices are between 1 and {MAX_PRICE}, so {_sync} does not revert with extreme reserves. A token worth less than 1e-18 of the other is priced at 1 instead of 0.
+     */
+    function _getPrices(uint256 _reserve0, uint256 _reserve1)
+        private
+        view
+        returns (uint256 price0, uint256 price1)
+    {
+        // y / x and x / y with both reserves in whole tokens
+        price0 = _getRatio(_reserve0, _reserve1, decimals0, decimals1);
+        price1 = _getRatio(_reserve1, _reserve0, decimals1, decimals0);
+
+        if (!stable) return (price0, price1);
+
+        // The slopes are inverses, so both are computed with the square of the lower ratio, which is at most 1 and cannot overflow
+        uint256 lowSquared = price0 < price1
+            ? price0.fmul(price0)
+            : price1.fmul(price1);
+
+        // r(3 + r^2) / (1 + 3r^2) for the lower ratio and its inverse for the higher ratio. They stay between the ratio and a third of it
+        (uint256 up, uint256 down) = (
+            3 ether + lowSquared,
+            1 ether + 3 * lowSquared
+        );
+
+        if (price0 > price1) (up, down) = (down, up);
+
+        price0 = price0.mulDiv(up, down);
+        price1 = price1.mulDiv(down, up);
+    }
+
+    /**
+     * @dev Returns reserveOut * unitIn * 1e18 / (reserveIn * unitOut), the amount of the out token one whole in token is worth with 18 decimals, between 1 and {MAX_PRICE}.
+     * It is computed without intermediate products that can overflow, as the reserves are not bounded.
+     */
+    function _getRatio(
+        uint256 reserveIn,
+        uint256 reserveOut,
+        uint256 unitIn,
+        uint256 unitOut
+    ) private pure returns (uint256 ratio) {
+        // The units are powers of 10, so they divide each other
+        uint256 scaledIn = unitIn * 1 ether;
+
+        if (scaledIn >= unitOut) {
+            uint256 scale = scaledIn / unitOut;
+
+            // The ratio is at least {MAX_PRICE} minus `scale`
+            if (reserveOut / reserveIn >= MAX_PRICE / scale) return MAX_PRICE;
+
+            ratio = reserveOut.mulDiv(scale, reserveIn);
+        } else {
+            ratio = reserveOut / reserveIn / (unitOut / scaledIn);
+
+            if (ratio > MAX_PRICE) return MAX_PRICE;
+        }
+
+        if (ratio == 0) ratio = 1;
+    }
+
     /**
      * @dev Update the observations, the reserve cumulatives and reserves.
      *
@@ -832,32 +1266,46 @@ contract Pair is IPair, SafeTransferErrors {
 
         // If time has passed and there are reserves, we update the reserve cumulatives
         if (timeElapsed != 0 && _reserve0 != 0 && _reserve1 != 0) {
+            (uint256 price0, uint256 price1) = _getPrices(_reserve0, _reserve1);
+
             // Overflow is desired
             unchecked {
                 reserve0CumulativeLast += _reserve0 * timeElapsed;
                 reserve1CumulativeLast += _reserve1 * timeElapsed;
+                price0CumulativeLast += price0 * timeElapsed;
+                price1CumulativeLast += price1 * timeElapsed;
             }
         }
 
-        // Get the index for the observation for this time slot.
-        //solhint-disable-next-line not-rely-on-time
-        uint256 index = observationIndexOf(block.timestamp);
-
-        // Get the old observation saved in the current timeslot. Note the storage
-        Observation storage observation = observations[index];
+        // Get the last observation of the ring buffer.
+        uint256 index = observationIndex;
 
         unchecked {
-            // How much time has passed from the old observation
+            // How much time has passed from the last observation
             //solhint-disable-next-line not-rely-on-time
-            timeElapsed = currentTimeStamp - observation.timestamp;
+            timeElapsed = currentTimeStamp - observations[index].timestamp;
         }
 
-        // If more time has passed since the last update, we need to update the observation.
-        if (timeElapsed > PERIOD_SIZE) {
-            // update the observation
-            observation.timestamp = currentTimeStamp;
-            observation.reserve0Cumulative = reserve0CumulativeLast;
-            observation.reserve1Cumulative = reserve1CumulativeLast;
+        // If a period has passed since the last observation, we record a new one.
+        if (timeElapsed > twapPeriodSize) {
+            uint256 cardinality = observationCardinality;
+
+            // Start using the observations paid by {increaseObservationCardinalityNext} once the buffer wraps
+            if (index == cardinality - 1 && observations.length > cardinality)
+                cardinality = observations.length;
+
+            index = (index + 1) % cardinality;
+
+            observations[index] = Observation(
+                currentTimeStamp,
+                reserve0CumulativeLast,
+                reserve1CumulativeLast,
+                price0CumulativeLast,
+                price1CumulativeLast
+            );
+
+            observationIndex = uint16(index);
+            observationCardinality = uint16(cardinality);
         }
 
         // Update the reserves.
@@ -998,4 +1446,45 @@ contract Pair is IPair, SafeTransferErrors {
             return (amountIn * reserveB) / (reserveA + amountIn);
         }
     }
+
+    /**
+     * @dev Inverse of {_computeAmountOut}. The stable curve is solved for the new reserve of the token sold with the same Newton method as {_getY}.
+     *
+     * @param amountOut The number of `tokenOut` being bought
+     * @param tokenOut The token being bought
+     * @param _reserve0 current reserves of token0
+     * @param _reserve1 current reserves of token1
+     * @return uint256 How many tokens of the other token must be sold before fees
+     */
+    function _computeAmountIn(
+        uint256 amountOut,
+        address tokenOut,
+        uint256 _reserve0,
+        uint256 _reserve1
+    ) private view returns (uint256) {
+        (uint256 reserveIn, uint256 reserveOut) = tokenOut == token0
+            ? (_reserve1, _reserve0)
+            : (_reserve0, _reserve1);
+
+        // A swap can never take the whole reserve
+        if (amountOut >= reserveOut) revert Pair__NoLiquidity();
+        if (amountOut == 0) return 0;
+
+        if (stable) {
+            uint256 xy = _k(_reserve0, _reserve1);
+            (uint256 decimalsIn, uint256 decimalsOut) = tokenOut == token0
+                ? (decimals1, decimals0)
+                : (decimals0, decimals1);
+            reserveIn = (reserveIn * 1e18) / decimalsIn;
+            reserveOut = (reserveOut * 1e18) / decimalsOut;
+            amountOut = (amountOut * 1e18) / decimalsOut;
+            uint256 x = _getY(reserveOut - amountOut, xy, reserveIn);
+            // {_getY} stops within 1 wei of the root, so 1 wei is added to stay above it
+            uint256 amountIn = x > reserveIn ? x - reserveIn + 1 : 1;
+            // Round up
+            return (amountIn * decimalsIn + 1e18 - 1) / 1e18;
+        } else {
+            return (reserveIn * amountOut) / (reserveOut - amountOut) + 1;
+        }
+    }
 }
@@ -6,12 +6,13 @@ import "@interest-protocol/library/MathLib.sol";
 import "./errors/RouterErrors.sol";
 
 import "./interfaces/IERC20.sol";
+import "./interfaces/IERC20Permit.sol";
 import "./interfaces/IFactory.sol";
 import "./interfaces/IPair.sol";
 import "./interfaces/IRouter.sol";
 import "./interfaces/IWNT.sol";
 
-import {Route, Amount} from "./DataTypes.sol";
+import {Route, Amount, PoolType} from "./DataTypes.sol";
 
 contract Router is IRouter {
     bytes32 private immutable pairCodeHash;
@@ -22,6 +23,9 @@ contract Router is IRouter {
 
     uint256 private constant MINIMUM_LIQUIDITY = 1000;
 
+    // Each iteration of {getSplitAmountOut} discards a third of the amounts left to search
+    uint256 private constant SPLIT_SEARCH_ITERATIONS = 24;
+
     constructor(address _factory, IWNT wnt) {
         factory = _factory;
         pairCodeHash = IFactory(_factory).pairCodeHash();
@@ -115,7 +119,76 @@ contract Router is IRouter {
         return _getBestAmount(tokenIn, amountIn, stablePair, volatilePair);
     }
 
-    // performs chained {_getBestAmount} calculations on any number of pairs
+    // Finds how much of `amountIn` to sell in the stable pair, with the rest sold in the volatile pair, to maximize the combined amount out. It is a ternary search over {Pair.getAmountOut}, as the sum of two concave curves has a single maximum
+    function getSplitAmountOut(
+        uint256 amountIn,
+        address tokenIn,
+        address tokenOut
+    ) external view returns (uint256 amountInStable, uint256 amountOut) {
+        if (amountIn == 0) revert Router__ZeroAmount();
+
+        (address volatilePair, address stablePair) = getPairs(
+            tokenIn,
+            tokenOut
+        );
+
+        uint256 low;
+        uint256 high = amountIn;
+
+        unchecked {
+            for (
+                uint256 i;
+                i < SPLIT_SEARCH_ITERATIONS && high - low > 2;
+                i++
+            ) {
+                uint256 third = (high - low) / 3;
+
+                if (
+                    _getSplitAmountOut(
+                        tokenIn,
+                        amountIn,
+                        low + third,
+                        stablePair,
+                        volatilePair
+                    ) <
+                    _getSplitAmountOut(
+                        tokenIn,
+                        amountIn,
+                        high - third,
+                        stablePair,
+                        volatilePair
+                    )
+                ) low += third;
+                else high -= third;
+            }
+
+            amountInStable = (low + high) / 2;
+        }
+
+        amountOut = _getSplitAmountOut(
+            tokenIn,
+            amountIn,
+            amountInStable,
+            stablePair,
+            volatilePair
+        );
+
+        // Selling everything in one pair is never worse than {getAmountOut}, and it is cheaper on a tie
+        Amount memory best = _getBestAmount(
+            tokenIn,
+            amountIn,
+            stablePair,
+            volatilePair
+        );
+
+        if (best.amount >= amountOut)
+            (amountInStable, amountOut) = (
+                best.stable ? amountIn : 0,
+                best.amount
+            );
+    }
+
+    // performs chained {_getBestAmount} calculations on any number of pairs. Hops with a {PoolType} other than {Auto} only quote that pair
     function getAmountsOut(uint256 amount, Route[] memory routes)
         public
         view
@@ -130,26 +203,90 @@ contract Router is IRouter {
             amounts[0] = Amount(amount, false);
 
             for (uint256 i; i < routes.length; i++) {
-                (address volatilePair, address stablePair) = getPairs(
-                    routes[i].from,
-                    routes[i].to
-                );
+                Route memory route = routes[i];
+
+                if (route.poolType == PoolType.Auto) {
+                    (address volatilePair, address stablePair) = getPairs(
+                        route.from,
+                        route.to
+                    );
 
-                if (
-                    IFactory(factory).isPair(volatilePair) ||
-                    IFactory(factory).isPair(stablePair)
-                ) {
                     amounts[i + 1] = _getBestAmount(
-                        routes[i].from,
+                        route.from,
                         amounts[i].amount,
                         stablePair,
                         volatilePair
                     );
+                } else {
+                    bool stable = route.poolType == PoolType.Stable;
+
+                    amounts[i + 1] = Amount(
+                        _quote(
+                            _getRoutePair(route, stable),
+                            IPair.getAmountOut.selector,
+                            route.from,
+                            amounts[i].amount
+                        ),
+                        stable
+                    );
                 }
             }
         }
     }
 
+    // performs chained {_getBestAmountIn} calculations on any number of pairs, from the last route to the first. Hops with a {PoolType} other than {Auto} only quote that pair
+    function getAmountsIn(uint256 amount, Route[] memory routes)
+        public
+        view
+        returns (Amount[] memory amounts)
+    {
+        if (routes.length == 0) revert Router__InvalidPath();
+        if (amount == 0) revert Router__ZeroAmount();
+
+        unchecked {
+            amounts = new Amount[](routes.length + 1);
+
+            amounts[routes.length] = Amount(amount, false);
+
+            for (uint256 i = routes.length; i > 0; i--) {
+                Route memory route = routes[i - 1];
+                Amount memory amountIn;
+
+                if (route.poolType == PoolType.Auto) {
+                    (address volatilePair, address stablePair) = getPairs(
+                        route.from,
+                        route.to
+                    );
+
+                    amountIn = _getBestAmountIn(
+                        route.to,
+                        amounts[i].amount,
+                        stablePair,
+                        volatilePair
+                    );
+                } else {
+                    bool stable = route.poolType == PoolType.Stable;
+
+                    amountIn = Amount(
+                        _quote(
+                            _getRoutePair(route, stable),
+                            IPair.getAmountIn.selector,
+                            route.to,
+                            amounts[i].amount
+                        ),
+                        stable
+                    );
+
+                    if (amountIn.amount == 0) revert Router__NoLiquidity();
+                }
+
+                // Same layout as {getAmountsOut}. The pair of routes[i - 1] is stored with its amount out
+                amounts[i - 1].amount = amountIn.amount;
+                amounts[i].stable = amountIn.stable;
+            }
+        }
+    }
+
     function isPair(address pair) external view returns (bool) {
         return IFactory(factory).isPair(pair);
     }
@@ -359,6 +496,38 @@ contract Router is IRouter {
         _safeTransferNativeToken(to, amountNativeToken);
     }
 
+    // Same as {removeLiquidityNativeToken}, but it sends the tokens the router received, as they can be less than the pair sent
+    function removeLiquidityNativeTokenSupportingFeeOnTransferTokens(
+        address token,
+        bool stable,
+        uint256 liquidity,
+        uint256 amountTokenMin,
+        uint256 amountNativeTokenMin,
+        address to,
+        uint256 deadline
+    ) public ensure(deadline) returns (uint256 amountNativeToken) {
+        // The router can hold tokens between the calls of a {multicall}, so only the tokens of this call are sent
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+
+        (, amountNativeToken) = removeLiquidity(
+            token,
+            address(WNT),
+            stable,
+            liquidity,
+            amountTokenMin,
+            amountNativeTokenMin,
+            address(this),
+            deadline
+        );
+        _safeTransfer(
+            token,
+            to,
+            IERC20(token).balanceOf(address(this)) - balanceBefore
+        );
+        WNT.withdraw(amountNativeToken);
+        _safeTransferNativeToken(to, amountNativeToken);
+    }
+
     function removeLiquidityWithPermit(
         address tokenA,
         address tokenB,
@@ -506,6 +675,276 @@ contract Router is IRouter {
         }
     }
 
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (Amount[] memory amounts) {
+        amounts = getAmountsIn(amountOut, routes);
+
+        if (amounts[0].amount > amountInMax) revert Router__ExcessiveInput();
+
+        _safeTransferFrom(
+            routes[0].from,
+            msg.sender,
+            pairFor(routes[0].from, routes[0].to, amounts[1].stable),
+            amounts[0].amount
+        );
+        _swap(amounts, routes, to);
+    }
+
+    function swapNativeTokenForExactTokens(
+        uint256 amountOut,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external payable ensure(deadline) returns (Amount[] memory amounts) {
+        if (routes[0].from != address(WNT)) revert Router__InvalidRoute();
+
+        amounts = getAmountsIn(amountOut, routes);
+
+        if (amounts[0].amount > msg.value) revert Router__ExcessiveInput();
+
+        WNT.deposit{value: amounts[0].amount}();
+        assert(
+            WNT.transfer(
+                pairFor(routes[0].from, routes[0].to, amounts[1].stable),
+                amounts[0].amount
+            )
+        );
+        _swap(amounts, routes, to);
+
+        // refund dust eth, if any
+        if (msg.value > amounts[0].amount)
+            _safeTransferNativeToken(msg.sender, msg.value - amounts[0].amount);
+    }
+
+    function swapTokensForExactNativeToken(
+        uint256 amountOut,
+        uint256 amountInMax,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (Amount[] memory amounts) {
+        if (routes[routes.length - 1].to != address(WNT))
+            revert Router__InvalidRoute();
+
+        amounts = getAmountsIn(amountOut, routes);
+
+        if (amounts[0].amount > amountInMax) revert Router__ExcessiveInput();
+
+        _safeTransferFrom(
+            routes[0].from,
+            msg.sender,
+            pairFor(routes[0].from, routes[0].to, amounts[1].stable),
+            amounts[0].amount
+        );
+        _swap(amounts, routes, address(this));
+        WNT.withdraw(amountOut);
+        _safeTransferNativeToken(to, amountOut);
+    }
+
+    // Sells `amountInStable` in the stable pair and the rest of `amountIn` in the volatile pair of `tokenIn` and `tokenOut`. {getSplitAmountOut} quotes the best split
+    function swapExactTokensForTokensSplit(
+        uint256 amountIn,
+        uint256 amountInStable,
+        uint256 amountOutMin,
+        address tokenIn,
+        address tokenOut,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountOut) {
+        if (amountInStable > amountIn) revert Router__InvalidSplit();
+
+        unchecked {
+            amountOut =
+                _swapSplit(tokenIn, tokenOut, true, amountInStable, to) +
+                _swapSplit(
+                    tokenIn,
+                    tokenOut,
+                    false,
+                    amountIn - amountInStable,
+                    to
+                );
+        }
+
+        if (amountOutMin > amountOut) revert Router__InsufficientOutput();
+    }
+
+    // **** SWAP (supporting fee-on-transfer tokens) ****
+    // The pairs are picked with {getAmountsOut} for `amountIn`. The amounts are computed again at every hop with the tokens the pair received.
+
+    function swapExactTokensForTokensSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) {
+        Amount[] memory amounts = getAmountsOut(amountIn, routes);
+
+        _safeTransferFrom(
+            routes[0].from,
+            msg.sender,
+            pairFor(routes[0].from, routes[0].to, amounts[1].stable),
+            amountIn
+        );
+
+        IERC20 tokenOut = IERC20(routes[routes.length - 1].to);
+        uint256 balanceBefore = tokenOut.balanceOf(to);
+
+        _swapSupportingFeeOnTransferTokens(amounts, routes, to);
+
+        if (amountOutMin > tokenOut.balanceOf(to) - balanceBefore)
+            revert Router__InsufficientOutput();
+    }
+
+    function swapExactNativeTokenForTokensSupportingFeeOnTransferTokens(
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external payable ensure(deadline) {
+        if (routes[0].from != address(WNT)) revert Router__InvalidRoute();
+
+        Amount[] memory amounts = getAmountsOut(msg.value, routes);
+
+        WNT.deposit{value: msg.value}();
+        assert(
+            WNT.transfer(
+                pairFor(routes[0].from, routes[0].to, amounts[1].stable),
+                msg.value
+            )
+        );
+
+        IERC20 tokenOut = IERC20(routes[routes.length - 1].to);
+        uint256 balanceBefore = tokenOut.balanceOf(to);
+
+        _swapSupportingFeeOnTransferTokens(amounts, routes, to);
+
+        if (amountOutMin > tokenOut.balanceOf(to) - balanceBefore)
+            revert Router__InsufficientOutput();
+    }
+
+    function swapExactTokensForNativeTokenSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) {
+        if (routes[routes.length - 1].to != address(WNT))
+            revert Router__InvalidRoute();
+
+        Amount[] memory amounts = getAmountsOut(amountIn, routes);
+
+        _safeTransferFrom(
+            routes[0].from,
+            msg.sender,
+            pairFor(routes[0].from, routes[0].to, amounts[1].stable),
+            amountIn
+        );
+
+        // The router can hold WNT between the calls of a {multicall}, so only the WNT of this swap is sent
+        uint256 balanceBefore = WNT.balanceOf(address(this));
+
+        _swapSupportingFeeOnTransferTokens(amounts, routes, address(this));
+
+        uint256 amountOut = WNT.balanceOf(address(this)) - balanceBefore;
+
+        if (amountOutMin > amountOut) revert Router__InsufficientOutput();
+
+        WNT.withdraw(amountOut);
+        _safeTransferNativeToken(to, amountOut);
+    }
+
+    // **** MULTICALL ****
+    // Calls the functions of the router in one transaction, e.g. {selfPermit}, a swap to the router and {unwrapWNT}. `msg.value` is shared by every call, so only one of them should use it
+    function multicall(bytes[] calldata data)
+        external
+        payable
+        returns (bytes[] memory results)
+    {
+        results = new bytes[](data.length);
+
+        for (uint256 i; i < data.length; i++) {
+            //solhint-disable-next-line avoid-low-level-calls
+            (bool success, bytes memory result) = address(this).delegatecall(
+                data[i]
+            );
+
+            if (!success) {
+                // Bubbles up the error of the call
+                //solhint-disable-next-line no-inline-assembly
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+
+            results[i] = result;
+        }
+    }
+
+    // Approves the router with an EIP-2612 permit of the caller. The functions below are payable, so {multicall} can batch them with the native token swaps
+    function selfPermit(
+        address token,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public payable {
+        IERC20Permit(token).permit(
+            msg.sender,
+            address(this),
+            value,
+            deadline,
+            v,
+            r,
+            s
+        );
+    }
+
+    // Same as {selfPermit}, but it skips the permit if the allowance is already enough. A permit can be front-run, which would make {selfPermit} revert
+    function selfPermitIfNecessary(
+        address token,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external payable {
+        if (IERC20(token).allowance(msg.sender, address(this)) < value)
+            selfPermit(token, value, deadline, v, r, s);
+    }
+
+    // Sends the WNT balance of the router to `to` as the native token. Swaps that pass the router as `to` leave their output here
+    function unwrapWNT(uint256 amountMinimum, address to) external payable {
+        uint256 balance = WNT.balanceOf(address(this));
+
+        if (amountMinimum > balance) revert Router__InsufficientBalance();
+
+        if (balance > 0) {
+            WNT.withdraw(balance);
+            _safeTransferNativeToken(to, balance);
+        }
+    }
+
+    // Sends the `token` balance of the router to `to`
+    function sweepToken(
+        address token,
+        uint256 amountMinimum,
+        address to
+    ) external payable {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+
+        if (amountMinimum > balance) revert Router__InsufficientBalance();
+
+        if (balance > 0) _safeTransfer(token, to, balance);
+    }
+
     // **** SWAP ****
     // requires the initial amount to have already been sent to the first pair
     function _swap(
@@ -539,47 +978,190 @@ contract Router is IRouter {
         }
     }
 
+    // Sells `amountIn` in one pair of {swapExactTokensForTokensSplit}. It reverts if the pair does not exist, unless there is nothing to sell
+    function _swapSplit(
+        address tokenIn,
+        address tokenOut,
+        bool stable,
+        uint256 amountIn,
+        address to
+    ) private returns (uint256 amountOut) {
+        if (amountIn == 0) return 0;
+
+        address pair = pairFor(tokenIn, tokenOut, stable);
+
+        if (!IFactory(factory).isPair(pair)) revert Router__PairNotFound();
+
+        amountOut = IPair(pair).getAmountOut(tokenIn, amountIn);
+
+        _safeTransferFrom(tokenIn, msg.sender, pair, amountIn);
+
+        (address token0, ) = sortTokens(tokenIn, tokenOut);
+
+        (uint256 amount0Out, uint256 amount1Out) = tokenIn == token0
+            ? (uint256(0), amountOut)
+            : (amountOut, uint256(0));
+
+        IPair(pair).swap(amount0Out, amount1Out, to, new bytes(0));
+    }
+
+    // Same as {_swap}, but the amount out of each pair is computed with the tokens it actually received
+    // requires the initial amount to have already been sent to the first pair
+    function _swapSupportingFeeOnTransferTokens(
+        Amount[] memory amounts,
+        Route[] memory routes,
+        address _to
+    ) private {
+        unchecked {
+            for (uint256 i; i < routes.length; i++) {
+                IPair pair = IPair(
+                    pairFor(routes[i].from, routes[i].to, amounts[i + 1].stable)
+                );
+
+                (address token0, ) = sortTokens(routes[i].from, routes[i].to);
+
+                uint256 amountOut;
+
+                {
+                    // scope for reserveIn, avoids stack too deep errors
+                    (uint256 reserve0, uint256 reserve1, ) = pair.getReserves();
+
+                    uint256 reserveIn = routes[i].from == token0
+                        ? reserve0
+                        : reserve1;
+
+                    amountOut = pair.getAmountOut(
+                        routes[i].from,
+                        IERC20(routes[i].from).balanceOf(address(pair)) -
+                            reserveIn
+                    );
+                }
+
+                (uint256 amount0Out, uint256 amount1Out) = routes[i].from ==
+                    token0
+                    ? (uint256(0), amountOut)
+                    : (amountOut, uint256(0));
+
+                address to = i < routes.length - 1
+                    ? pairFor(
+                        routes[i + 1].from,
+                        routes[i + 1].to,
+                        amounts[i + 2].stable
+                    )
+                    : _to;
+
+                pair.swap(amount0Out, amount1Out, to, new bytes(0));
+            }
+        }
+    }
+
     function _getBestAmount(
         address tokenIn,
         uint256 amountIn,
         address stablePair,
         address volatilePair
     ) private view returns (Amount memory) {
-        uint256 amountStable;
-        uint256 amountVolatile;
+        uint256 amountStable = _quote(
+            stablePair,
+            IPair.getAmountOut.selector,
+            tokenIn,
+            amountIn
+        );
+        uint256 amountVolatile = _quote(
+            volatilePair,
+            IPair.getAmountOut.selector,
+            tokenIn,
+            amountIn
+        );
+
+        return
+            amountStable > amountVolatile
+                ? Amount(amountStable, true)
+                : Amount(amountVolatile, false);
+    }
 
-        if (IFactory(factory).isPair(stablePair)) {
-            (bool success, bytes memory data) = stablePair.staticcall(
-                abi.encodeWithSelector(
+    // Combined amount out of selling `amountInStable` in the stable pair and the rest of `amountIn` in the volatile pair
+    function _getSplitAmountOut(
+        address tokenIn,
+        uint256 amountIn,
+        uint256 amountInStable,
+        address stablePair,
+        address volatilePair
+    ) private view returns (uint256) {
+        unchecked {
+            return
+                _quote(
+                    stablePair,
                     IPair.getAmountOut.selector,
                     tokenIn,
-                    amountIn
-                )
-            );
-
-            if (success && data.length == 32)
-                amountStable = abi.decode(data, (uint256));
-        }
-
-        if (IFactory(factory).isPair(volatilePair)) {
-            (bool success, bytes memory data) = volatilePair.staticcall(
-                abi.encodeWithSelector(
+                    amountInStable
+                ) +
+                _quote(
+                    volatilePair,
                     IPair.getAmountOut.selector,
                     tokenIn,
-                    amountIn
-                )
-            );
-
-            if (success && data.length == 32)
-                amountVolatile = abi.decode(data, (uint256));
+                    amountIn - amountInStable
+                );
         }
+    }
+
+    // Picks the pair that needs the fewest tokens to buy `amountOut`
+    function _getBestAmountIn(
+        address tokenOut,
+        uint256 amountOut,
+        address stablePair,
+        address volatilePair
+    ) private view returns (Amount memory) {
+        uint256 amountStable = _quote(
+            stablePair,
+            IPair.getAmountIn.selector,
+            tokenOut,
+            amountOut
+        );
+        uint256 amountVolatile = _quote(
+            volatilePair,
+            IPair.getAmountIn.selector,
+            tokenOut,
+            amountOut
+        );
+
+        // Zero means that the pair does not exist or cannot fill the order
+        if (amountStable == 0 && amountVolatile == 0)
+            revert Router__NoLiquidity();
 
         return
-            amountStable > amountVolatile
+            amountVolatile == 0 ||
+                (amountStable != 0 && amountStable < amountVolatile)
                 ? Amount(amountStable, true)
                 : Amount(amountVolatile, false);
     }
 
+    // Returns the pair that `route` must use and reverts if the factory has not deployed it
+    function _getRoutePair(Route memory route, bool stable)
+        private
+        view
+        returns (address pair)
+    {
+        pair = pairFor(route.from, route.to, stable);
+        if (!IFactory(factory).isPair(pair)) revert Router__PairNotFound();
+    }
+
+    // Calls {Pair.getAmountOut} or {Pair.getAmountIn}. It returns 0 if `pair` was not deployed by the factory or the call fails
+    function _quote(
+        address pair,
+        bytes4 selector,
+        address token,
+        uint256 amount
+    ) private view returns (uint256) {
+        if (!IFactory(factory).isPair(pair)) return 0;
+
+        (bool success, bytes memory data) = pair.staticcall(
+            abi.encodeWithSelector(selector, token, amount)
+        );
+
+        return success && data.length == 32 ? abi.decode(data, (uint256)) : 0;
+    }
+
     function _safeTransfer(
         address token,
         address to,
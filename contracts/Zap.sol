@@ -0,0 +1,376 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import "@interest-protocol/library/MathLib.sol";
+import "@interest-protocol/library/SafeTransferLib.sol";
+
+import "./errors/ZapErrors.sol";
+
+import "./interfaces/IFactory.sol";
+import "./interfaces/IPair.sol";
+import "./interfaces/IWNT.sol";
+import "./interfaces/IZap.sol";
+
+// Adds and removes liquidity with a single token. It is not part of the {Router}, as the router is close to the contract size limit
+contract Zap is IZap {
+    using SafeTransferLib for address;
+    using MathLib for uint256;
+
+    address public immutable factory;
+
+    IWNT public immutable WNT;
+
+    // Maximum quotes of the search of stable pairs. It usually converges in fewer, and the tokens it misses are refunded
+    uint256 private constant STABLE_SEARCH_ITERATIONS = 16;
+
+    constructor(address _factory, IWNT wnt) {
+        factory = _factory;
+        WNT = wnt;
+    }
+
+    modifier ensure(uint256 deadline) {
+        if (block.timestamp > deadline) revert Zap__Expired();
+        _;
+    }
+
+    receive() external payable {
+        assert(msg.sender == address(WNT)); // only accept native token from the Wrapped Native contract
+    }
+
+    /**
+     * @dev Amount of `amountIn` to swap in `pair`, so the tokens left and the tokens bought match the reserves after the swap.
+     * Volatile pairs use the closed form of x * y = k with the swap fee. Stable pairs are solved numerically with {Pair.getAmountOut}.
+     *
+     * @param pair The pair to add liquidity to
+     * @param tokenIn One of the tokens of `pair`
+     * @param amountIn The amount of `tokenIn` to zap
+     * @return The amount of `tokenIn` to swap
+     */
+    function getZapInSwapAmount(
+        address pair,
+        address tokenIn,
+        uint256 amountIn
+    ) public view returns (uint256) {
+        (uint256 reserveIn, uint256 reserveOut) = _getReserves(pair, tokenIn);
+
+        if (reserveIn == 0 || reserveOut == 0) revert Zap__NoLiquidity();
+
+        if (!IPair(pair).stable()) {
+            // 1 - swap fee
+            uint256 feeComplement = 1 ether - IPair(pair).swapFee();
+            // reserveIn * (2 - swap fee)
+            uint256 b = reserveIn.fmul(1 ether + feeComplement);
+
+            return
+                ((b * b + 4 * reserveIn * amountIn.fmul(feeComplement)).sqrt() -
+                    b).fdiv(2 * feeComplement);
+        }
+
+        return
+            _getStableSwapAmount(
+                pair,
+                tokenIn,
+                amountIn,
+                reserveIn,
+                reserveOut
+            );
+    }
+
+    /**
+     * @dev Swaps part of `amountIn` for the other token of the pair and deposits both. The dust that does not fit the reserves is refunded to the caller.
+     *
+     * @param tokenIn The token to zap
+     * @param amountIn The amount of `tokenIn` to zap
+     * @param pairTokens The tokens of the pair. One of them must be `tokenIn`
+     * @param stable The curve of the pair
+     * @param minLiquidity The minimum LP tokens to mint
+     * @param to The address that receives the LP tokens
+     * @param deadline The timestamp after which the transaction reverts
+     * @return liquidity The LP tokens minted
+     */
+    function zapIn(
+        address tokenIn,
+        uint256 amountIn,
+        address[2] calldata pairTokens,
+        bool stable,
+        uint256 minLiquidity,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 liquidity) {
+        address tokenOut = _getOtherToken(tokenIn, pairTokens);
+
+        tokenIn.safeTransferFrom(msg.sender, address(this), amountIn);
+
+        liquidity = _zapIn(tokenIn, tokenOut, stable, amountIn, to);
+
+        if (minLiquidity > liquidity) revert Zap__InsufficientLiquidity();
+    }
+
+    // Same as {zapIn} with the native token of `msg.value` as the input. The dust is refunded in WNT
+    function zapInNativeToken(
+        address token,
+        bool stable,
+        uint256 minLiquidity,
+        address to,
+        uint256 deadline
+    ) external payable ensure(deadline) returns (uint256 liquidity) {
+        WNT.deposit{value: msg.value}();
+
+        liquidity = _zapIn(address(WNT), token, stable, msg.value, to);
+
+        if (minLiquidity > liquidity) revert Zap__InsufficientLiquidity();
+    }
+
+    /**
+     * @dev Burns LP tokens of the caller and swaps the other token of the pair for `tokenOut`.
+     *
+     * @param pairTokens The tokens of the pair. One of them must be `tokenOut`
+     * @param stable The curve of the pair
+     * @param liquidity The LP tokens to burn
+     * @param tokenOut The token to receive
+     * @param amountOutMin The minimum amount of `tokenOut` to receive
+     * @param to The address that receives `tokenOut`
+     * @param deadline The timestamp after which the transaction reverts
+     * @return amountOut The amount of `tokenOut` sent to `to`
+     */
+    function zapOut(
+        address[2] calldata pairTokens,
+        bool stable,
+        uint256 liquidity,
+        address tokenOut,
+        uint256 amountOutMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountOut) {
+        amountOut = _zapOut(
+            tokenOut,
+            _getOtherToken(tokenOut, pairTokens),
+            stable,
+            liquidity
+        );
+
+        if (amountOutMin > amountOut) revert Zap__InsufficientOutput();
+
+        tokenOut.safeTransfer(to, amountOut);
+    }
+
+    // Same as {zapOut} with the native token as the output
+    function zapOutNativeToken(
+        address token,
+        bool stable,
+        uint256 liquidity,
+        uint256 amountOutMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountOut) {
+        amountOut = _zapOut(address(WNT), token, stable, liquidity);
+
+        if (amountOutMin > amountOut) revert Zap__InsufficientOutput();
+
+        WNT.withdraw(amountOut);
+        to.safeTransferNativeToken(amountOut);
+    }
+
+    /**
+     * @dev Finds the root of {_getZapInError}, which falls from a positive value when nothing is swapped to a negative value when everything is swapped.
+     * It is a regula falsi with the Illinois modification, so the root stays between `low` and `high` and the search converges in a few quotes.
+     */
+    function _getStableSwapAmount(
+        address pair,
+        address tokenIn,
+        uint256 amountIn,
+        uint256 reserveIn,
+        uint256 reserveOut
+    ) private view returns (uint256 low) {
+        uint256 high = amountIn;
+
+        int256 errorLow = _getZapInError(
+            pair,
+            tokenIn,
+            amountIn,
+            low,
+            reserveIn,
+            reserveOut
+        );
+        int256 errorHigh = _getZapInError(
+            pair,
+            tokenIn,
+            amountIn,
+            high,
+            reserveIn,
+            reserveOut
+        );
+
+        // 1 if the last two iterations moved `low`, -1 if they moved `high`
+        int256 side;
+
+        for (uint256 i; i < STABLE_SEARCH_ITERATIONS && high - low > 1; i++) {
+            uint256 x = low +
+                (high - low).mulDiv(
+                    uint256(errorLow),
+                    uint256(errorLow - errorHigh)
+                );
+
+            // Always moves one of the bounds
+            if (x == low) x++;
+            else if (x == high) x--;
+
+            int256 error = _getZapInError(
+                pair,
+                tokenIn,
+                amountIn,
+                x,
+                reserveIn,
+                reserveOut
+            );
+
+            if (error == 0) return x;
+
+            if (error > 0) {
+                (low, errorLow) = (x, error);
+                if (side == 1 && errorHigh < -1) errorHigh /= 2;
+                side = 1;
+            } else {
+                (high, errorHigh) = (x, error);
+                if (side == -1 && errorLow > 1) errorLow /= 2;
+                side = -1;
+            }
+        }
+    }
+
+    // How much more `tokenIn` is left after swapping `amountSwap` than the reserves after the swap take for the tokens bought, scaled by the new reserve out
+    function _getZapInError(
+        address pair,
+        address tokenIn,
+        uint256 amountIn,
+        uint256 amountSwap,
+        uint256 reserveIn,
+        uint256 reserveOut
+    ) private view returns (int256) {
+        uint256 amountOut = amountSwap == 0
+            ? 0
+            : IPair(pair).getAmountOut(tokenIn, amountSwap);
+
+        return
+            int256((amountIn - amountSwap) * (reserveOut - amountOut)) -
+            int256(amountOut * (reserveIn + amountSwap));
+    }
+
+    // requires `amountIn` of `tokenIn` to be held by this contract
+    function _zapIn(
+        address tokenIn,
+        address tokenOut,
+        bool stable,
+        uint256 amountIn,
+        address to
+    ) private returns (uint256 liquidity) {
+        if (amountIn == 0) revert Zap__ZeroAmount();
+
+        address pair = _getPair(tokenIn, tokenOut, stable);
+
+        uint256 amountSwap = getZapInSwapAmount(pair, tokenIn, amountIn);
+        uint256 amountOut = _swap(pair, tokenIn, amountSwap);
+
+        amountIn -= amountSwap;
+
+        // Same as {Router._addLiquidity} with the reserves after the swap
+        (uint256 reserveIn, uint256 reserveOut) = _getReserves(pair, tokenIn);
+
+        (uint256 depositIn, uint256 depositOut) = (
+            amountIn,
+            (amountIn * reserveOut) / reserveIn
+        );
+
+        if (depositOut > amountOut)
+            (depositIn, depositOut) = (
+                (amountOut * reserveIn) / reserveOut,
+                amountOut
+            );
+
+        tokenIn.safeTransfer(pair, depositIn);
+        tokenOut.safeTransfer(pair, depositOut);
+
+        liquidity = IPair(pair).mint(to);
+
+        if (amountIn > depositIn)
+            tokenIn.safeTransfer(msg.sender, amountIn - depositIn);
+        if (amountOut > depositOut)
+            tokenOut.safeTransfer(msg.sender, amountOut - depositOut);
+    }
+
+    // Leaves `amountOut` of `tokenOut` in this contract
+    function _zapOut(
+        address tokenOut,
+        address tokenIn,
+        bool stable,
+        uint256 liquidity
+    ) private returns (uint256 amountOut) {
+        address pair = _getPair(tokenOut, tokenIn, stable);
+
+        pair.safeTransferFrom(msg.sender, pair, liquidity);
+
+        (uint256 amount0, uint256 amount1) = IPair(pair).burn(address(this));
+
+        (address token0, ) = IPair(pair).tokens();
+
+        (uint256 amountBurned, uint256 amountSwap) = tokenOut == token0
+            ? (amount0, amount1)
+            : (amount1, amount0);
+
+        amountOut = amountBurned + _swap(pair, tokenIn, amountSwap);
+    }
+
+    // Swaps `amountIn` of `tokenIn` held by this contract in `pair` and keeps the output
+    function _swap(
+        address pair,
+        address tokenIn,
+        uint256 amountIn
+    ) private returns (uint256 amountOut) {
+        if (amountIn == 0) return 0;
+
+        amountOut = IPair(pair).getAmountOut(tokenIn, amountIn);
+
+        tokenIn.safeTransfer(pair, amountIn);
+
+        (address token0, ) = IPair(pair).tokens();
+
+        (uint256 amount0Out, uint256 amount1Out) = tokenIn == token0
+            ? (uint256(0), amountOut)
+            : (amountOut, uint256(0));
+
+        IPair(pair).swap(amount0Out, amount1Out, address(this), new bytes(0));
+    }
+
+    function _getPair(
+        address tokenA,
+        address tokenB,
+        bool stable
+    ) private view returns (address pair) {
+        pair = IFactory(factory).getPair(tokenA, tokenB, stable);
+        if (pair == address(0)) revert Zap__PairNotFound();
+    }
+
+    // fetches the reserves of `pair` with the reserve of `tokenIn` first
+    function _getReserves(address pair, address tokenIn)
+        private
+        view
+        returns (uint256 reserveIn, uint256 reserveOut)
+    {
+        (address token0, ) = IPair(pair).tokens();
+        (uint256 reserve0, uint256 reserve1, ) = IPair(pair).getReserves();
+
+        (reserveIn, reserveOut) = tokenIn == token0
+            ? (reserve0, reserve1)
+            : (reserve1, reserve0);
+    }
+
+    function _getOtherToken(address token, address[2] calldata pairTokens)
+        private
+        pure
+        returns (address)
+    {
+        if (token == pairTokens[0]) return pairTokens[1];
+        if (token == pairTokens[1]) return pairTokens[0];
+        revert Zap__InvalidToken();
+    }
+}
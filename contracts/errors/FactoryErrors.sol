@@ -8,3 +8,11 @@ error Factory__ZeroAddress();
 error Factory__AlreadyDeployed();
 
 error Factory__Unauthorized();
+
+error Factory__NotAPair();
+
+error Factory__FeeTooHigh();
+
+error Factory__InvalidTwap();
+
+error Factory__DeployFailed();
@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+error LPOracle__NotAPair();
+
+error LPOracle__InvalidToken();
+
+error LPOracle__NoLiquidity();
@@ -20,3 +20,7 @@ error Pair__K();
 error Pair__PermitExpired();
 
 error Pair__InvalidSignature();
+
+error Pair__Unauthorized();
+
+error Pair__ZeroSecondsAgo();
@@ -30,3 +30,11 @@ error Router__NoLiquidity();
 error Router__InvalidAmountA();
 
 error Router__InvalidAmountB();
+
+error Router__ExcessiveInput();
+
+error Router__PairNotFound();
+
+error Router__InvalidSplit();
+
+error Router__InsufficientBalance();
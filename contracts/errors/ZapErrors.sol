@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+error Zap__Expired();
+
+error Zap__ZeroAmount();
+
+error Zap__InvalidToken();
+
+error Zap__PairNotFound();
+
+error Zap__NoLiquidity();
+
+error Zap__InsufficientLiquidity();
+
+error Zap__InsufficientOutput();
@@ -14,10 +14,38 @@ interface IFactory {
 
     event NewGovernor(address indexed oldGovernor, address indexed newGovernor);
 
+    event NewProtocolFee(uint256 oldFee, uint256 newFee);
+
+    event NewSwapFee(bool indexed stable, uint256 oldFee, uint256 newFee);
+
+    event NewPairSwapFee(address indexed pair, uint256 oldFee, uint256 newFee);
+
+    event RemovePairSwapFee(address indexed pair);
+
+    event NewTwap(uint256 window, uint256 granularity);
+
+    event NewPairTwap(
+        address indexed pair,
+        uint256 window,
+        uint256 granularity
+    );
+
     function feeTo() external view returns (address);
 
     function governor() external view returns (address);
 
+    function protocolFee() external view returns (uint256);
+
+    function stableSwapFee() external view returns (uint256);
+
+    function volatileSwapFee() external view returns (uint256);
+
+    function getSwapFee(address pair) external view returns (uint256);
+
+    function twapWindow() external view returns (uint256);
+
+    function twapGranularity() external view returns (uint256);
+
     function allPairs(uint256) external view returns (address);
 
     function isPair(address pair) external view returns (bool);
@@ -30,7 +58,7 @@ interface IFactory {
 
     function allPairsLength() external view returns (uint256);
 
-    function pairCodeHash() external pure returns (bytes32);
+    function pairCodeHash() external view returns (bytes32);
 
     function getInitializable()
         external
@@ -50,4 +78,20 @@ interface IFactory {
     function setFeeTo(address _feeTo) external;
 
     function setGovernor(address _governor) external;
+
+    function setProtocolFee(uint256 fee) external;
+
+    function setSwapFee(bool stable, uint256 fee) external;
+
+    function setPairSwapFee(address pair, uint256 fee) external;
+
+    function removePairSwapFee(address pair) external;
+
+    function setTwap(uint256 window, uint256 granularity) external;
+
+    function setPairTwap(
+        address pair,
+        uint256 window,
+        uint256 granularity
+    ) external;
 }
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.9;
+
+interface ILPOracle {
+    function factory() external view returns (address);
+
+    function getFairReserves(address pair)
+        external
+        view
+        returns (uint256 fairReserve0, uint256 fairReserve1);
+
+    function getTotalSupply(address pair) external view returns (uint256);
+
+    function getLPTokenPrice(address pair, address quoteToken)
+        external
+        view
+        returns (uint256);
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.9;
+
+import {PairInfo} from "../DataTypes.sol";
+
+interface ILens {
+    function factory() external view returns (address);
+
+    function getPairs(
+        uint256 start,
+        uint256 count,
+        address account
+    ) external view returns (PairInfo[] memory pairs, uint256 allPairsLength);
+
+    function getPairInfo(address pair, address account)
+        external
+        view
+        returns (PairInfo memory);
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.9;
+
+import "./AggregatorV3Interface.sol";
+
+interface IOracleAdapter is AggregatorV3Interface {
+    function tokenIn() external view returns (address);
+
+    function tokenOut() external view returns (address);
+
+    function getPairs() external view returns (address[] memory);
+
+    function getPath() external view returns (address[] memory);
+}
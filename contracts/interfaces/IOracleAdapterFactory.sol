@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.9;
+
+interface IOracleAdapterFactory {
+    event AdapterCreated(
+        address indexed tokenIn,
+        address indexed tokenOut,
+        address[] pairs,
+        address adapter,
+        uint256
+    );
+
+    function factory() external view returns (address);
+
+    function allAdapters(uint256) external view returns (address);
+
+    function isAdapter(address adapter) external view returns (bool);
+
+    function allAdaptersLength() external view returns (uint256);
+
+    function getAdapter(address[] calldata pairs, address tokenIn)
+        external
+        view
+        returns (address);
+
+    function createAdapter(address[] calldata pairs, address tokenIn)
+        external
+        returns (address adapter);
+}
@@ -26,8 +26,15 @@ interface IPair is IERC20 {
 
     event Sync(uint256 reserve0, uint256 reserve1);
 
+    event IncreaseObservationCardinalityNext(
+        uint256 oldCardinalityNext,
+        uint256 newCardinalityNext
+    );
+
     function stable() external view returns (bool);
 
+    function swapFee() external view returns (uint256);
+
     function nonces(address) external view returns (uint256);
 
     function token0() external view returns (address);
@@ -38,6 +45,8 @@ interface IPair is IERC20 {
         external
         view
         returns (
+            uint256,
+            uint256,
             uint256,
             uint256,
             uint256
@@ -49,21 +58,57 @@ interface IPair is IERC20 {
 
     function blockTimestampLast() external view returns (uint256);
 
+    function kLast() external view returns (uint256);
+
     function reserve0CumulativeLast() external view returns (uint256);
 
     function reserve1CumulativeLast() external view returns (uint256);
 
+    function price0CumulativeLast() external view returns (uint256);
+
+    function price1CumulativeLast() external view returns (uint256);
+
+    function twapWindow() external view returns (uint64);
+
+    function twapGranularity() external view returns (uint64);
+
+    function twapPeriodSize() external view returns (uint64);
+
+    function observationIndex() external view returns (uint16);
+
+    function observationCardinality() external view returns (uint16);
+
     function observationLength() external view returns (uint256);
 
+    function increaseObservationCardinalityNext(uint16 cardinalityNext)
+        external;
+
     function getFirstObservationInWindow()
         external
         view
         returns (Observation memory);
 
-    function observationIndexOf(uint256 timestamp)
+    function observe(uint32[] calldata secondsAgos)
         external
-        pure
-        returns (uint256 index);
+        view
+        returns (
+            uint256[] memory reserve0Cumulatives,
+            uint256[] memory reserve1Cumulatives
+        );
+
+    function observePrices(uint32[] calldata secondsAgos)
+        external
+        view
+        returns (
+            uint256[] memory price0Cumulatives,
+            uint256[] memory price1Cumulatives
+        );
+
+    function consult(
+        address tokenIn,
+        uint256 amountIn,
+        uint32 secondsAgo
+    ) external view returns (uint256 amountOut);
 
     function metadata()
         external
@@ -95,6 +140,11 @@ interface IPair is IERC20 {
         view
         returns (uint256 amountOut);
 
+    function getTwapPrice(address tokenIn, uint256 amountIn)
+        external
+        view
+        returns (uint256 amountOut);
+
     function mint(address to) external returns (uint256 liquidity);
 
     function burn(address to)
@@ -121,8 +171,12 @@ interface IPair is IERC20 {
 
     function sync() external;
 
+    function setTwap(uint256 window, uint256 granularity) external;
+
     function getAmountOut(address, uint256) external view returns (uint256);
 
+    function getAmountIn(address, uint256) external view returns (uint256);
+
     function permit(
         address owner,
         address spender,
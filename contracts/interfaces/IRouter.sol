@@ -32,6 +32,11 @@ interface IRouter {
         view
         returns (Amount[] memory amounts);
 
+    function getAmountsIn(uint256 amount, Route[] memory routes)
+        external
+        view
+        returns (Amount[] memory amounts);
+
     function getReserves(
         address tokenA,
         address tokenB,
@@ -44,6 +49,12 @@ interface IRouter {
         address tokenOut
     ) external view returns (Amount memory amount);
 
+    function getSplitAmountOut(
+        uint256 amountIn,
+        address tokenIn,
+        address tokenOut
+    ) external view returns (uint256 amountInStable, uint256 amountOut);
+
     function isPair(address pair) external view returns (bool);
 
     function quoteAddLiquidity(
@@ -124,6 +135,16 @@ interface IRouter {
         uint256 deadline
     ) external returns (uint256 amountToken, uint256 amountNativeToken);
 
+    function removeLiquidityNativeTokenSupportingFeeOnTransferTokens(
+        address token,
+        bool stable,
+        uint256 liquidity,
+        uint256 amountTokenMin,
+        uint256 amountNativeTokenMin,
+        address to,
+        uint256 deadline
+    ) external returns (uint256 amountNativeToken);
+
     function removeLiquidityWithPermit(
         address tokenA,
         address tokenB,
@@ -175,4 +196,91 @@ interface IRouter {
         address to,
         uint256 deadline
     ) external returns (Amount[] memory amounts);
+
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external returns (Amount[] memory amounts);
+
+    function swapNativeTokenForExactTokens(
+        uint256 amountOut,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external payable returns (Amount[] memory amounts);
+
+    function swapTokensForExactNativeToken(
+        uint256 amountOut,
+        uint256 amountInMax,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external returns (Amount[] memory amounts);
+
+    function swapExactTokensForTokensSplit(
+        uint256 amountIn,
+        uint256 amountInStable,
+        uint256 amountOutMin,
+        address tokenIn,
+        address tokenOut,
+        address to,
+        uint256 deadline
+    ) external returns (uint256 amountOut);
+
+    function swapExactTokensForTokensSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external;
+
+    function swapExactNativeTokenForTokensSupportingFeeOnTransferTokens(
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external payable;
+
+    function swapExactTokensForNativeTokenSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external;
+
+    function multicall(bytes[] calldata data)
+        external
+        payable
+        returns (bytes[] memory results);
+
+    function selfPermit(
+        address token,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external payable;
+
+    function selfPermitIfNecessary(
+        address token,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external payable;
+
+    function unwrapWNT(uint256 amountMinimum, address to) external payable;
+
+    function sweepToken(
+        address token,
+        uint256 amountMinimum,
+        address to
+    ) external payable;
 }
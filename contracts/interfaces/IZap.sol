@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.9;
+
+import "./IWNT.sol";
+
+interface IZap {
+    function factory() external view returns (address);
+
+    //solhint-disable-next-line func-name-mixedcase
+    function WNT() external view returns (IWNT);
+
+    function getZapInSwapAmount(
+        address pair,
+        address tokenIn,
+        uint256 amountIn
+    ) external view returns (uint256);
+
+    function zapIn(
+        address tokenIn,
+        uint256 amountIn,
+        address[2] calldata pairTokens,
+        bool stable,
+        uint256 minLiquidity,
+        address to,
+        uint256 deadline
+    ) external returns (uint256 liquidity);
+
+    function zapInNativeToken(
+        address token,
+        bool stable,
+        uint256 minLiquidity,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256 liquidity);
+
+    function zapOut(
+        address[2] calldata pairTokens,
+        bool stable,
+        uint256 liquidity,
+        address tokenOut,
+        uint256 amountOutMin,
+        address to,
+        uint256 deadline
+    ) external returns (uint256 amountOut);
+
+    function zapOutNativeToken(
+        address token,
+        bool stable,
+        uint256 liquidity,
+        uint256 amountOutMin,
+        address to,
+        uint256 deadline
+    ) external returns (uint256 amountOut);
+}
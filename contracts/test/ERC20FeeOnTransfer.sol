@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.17;
+
+import "./ERC20.sol";
+
+//solhint-disable
+// Takes 1% of every transfer, like deflationary and reflection tokens do
+contract ERC20FeeOnTransfer is ERC20 {
+    address public constant FEE_RECIPIENT = address(0xdead);
+
+    // In basis points
+    uint256 public constant FEE = 100;
+
+    constructor(string memory name_, string memory symbol_)
+        ERC20(name_, symbol_)
+    {}
+
+    function _transfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal override {
+        uint256 fee = (amount * FEE) / 10_000;
+
+        super._transfer(from, to, amount - fee);
+
+        if (fee > 0) super._transfer(from, FEE_RECIPIENT, fee);
+    }
+}
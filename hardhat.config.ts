@@ -7,6 +7,8 @@ import "@typechain/hardhat";
 import "hardhat-gas-reporter";
 import "solidity-coverage";
 
+import "./tasks";
+
 dotenv.config();
 
 // This is a sample Hardhat task. To learn how to create your own go to
@@ -41,6 +43,7 @@ const config: HardhatUserConfig = {
   },
   gasReporter: {
     enabled: false,
+    excludeContracts: ["test/"],
   },
   etherscan: {
     apiKey: process.env.ETHERSCAN_API_KEY,
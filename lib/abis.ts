@@ -0,0 +1,18 @@
+// Human readable ABIs of the fragments the modules of lib use. They keep these modules free of runtime imports from typechain, so Hardhat tasks can use them before compiling.
+
+export const FACTORY_ABI = [
+  "event PairCreated(address indexed token0, address indexed token1, bool stable, address pair, uint256 length)",
+];
+
+export const PAIR_ABI = [
+  "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Sync(uint256 reserve0, uint256 reserve1)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "function metadata() view returns (address t0, address t1, bool st, uint256 fee, uint256 r0, uint256 r1, uint256 dec0, uint256 dec1)",
+  "function observationIndex() view returns (uint16)",
+  "function observations(uint256) view returns (uint256 timestamp, uint256 reserve0Cumulative, uint256 reserve1Cumulative, uint256 price0Cumulative, uint256 price1Cumulative)",
+  "function twapPeriodSize() view returns (uint64)",
+  "function sync()",
+];
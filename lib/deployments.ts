@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export interface DeploymentRecord {
+  address: string;
+  // Missing for contracts that were deployed outside of this project, e.g. the canonical WNT of a chain.
+  transactionHash?: string;
+  blockNumber?: number;
+  constructorArgs: Array<unknown>;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+export const getManifestPath = (networkName: string) =>
+  path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+
+export const hasManifest = (networkName: string) =>
+  fs.existsSync(getManifestPath(networkName));
+
+const readManifest = (networkName: string): DeploymentManifest =>
+  JSON.parse(fs.readFileSync(getManifestPath(networkName), "utf8"));
+
+/**
+ * @dev Reads the manifest of `networkName`. It returns an empty manifest if the network has never been deployed to.
+ * It throws if the manifest on disk was written for a different chain.
+ */
+export const loadManifest = (
+  networkName: string,
+  chainId: number
+): DeploymentManifest => {
+  if (!hasManifest(networkName))
+    return { network: networkName, chainId, contracts: {} };
+
+  const manifest = readManifest(networkName);
+
+  if (manifest.chainId !== chainId)
+    throw new Error(
+      `Manifest for ${networkName} was written for chain ${manifest.chainId} but the provider is on chain ${chainId}`
+    );
+
+  return manifest;
+};
+
+export const saveManifest = (manifest: DeploymentManifest) => {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(
+    getManifestPath(manifest.network),
+    JSON.stringify(manifest, null, 2) + "\n"
+  );
+};
+
+/**
+ * @dev Returns the address of `name` in the manifest of `networkName` and throws if it was never deployed.
+ */
+export const getDeployedAddress = (networkName: string, name: string) => {
+  if (!hasManifest(networkName))
+    throw new Error(`No deployment manifest found for ${networkName}`);
+
+  const record = readManifest(networkName).contracts[name];
+
+  if (!record) throw new Error(`${name} is not deployed on ${networkName}`);
+
+  return record.address;
+};
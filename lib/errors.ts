@@ -0,0 +1,421 @@
+import { BigNumber, utils } from "ethers";
+
+export interface ErrorDescription {
+  explanation: string;
+  remedy: string;
+}
+
+export interface DecodedError extends ErrorDescription {
+  // The error name, e.g. Pair__K. It is "Unknown" if the selector does not match any error of the protocol and "EmptyRevert" if the call reverted without data.
+  name: string;
+  // The contract or library that declares the error.
+  source: string;
+  signature: string;
+  selector: string;
+  args: utils.Result;
+}
+
+/**
+ * @dev Every custom error of contracts/errors/*.sol and the library errors of {SafeTransferErrors}. The errors of the protocol are prefixed with the contract that throws them.
+ * None of them have parameters, so the signature is the name followed by `()`.
+ */
+export const ERRORS: Record<string, ErrorDescription> = {
+  AddressLib__TransferFailed: {
+    explanation: "The native token transfer failed",
+    remedy: "Make sure the receiver can accept the native token",
+  },
+  AddressLib__NotAContract: {
+    explanation: "The target address has no code",
+    remedy: "Check that the address is a deployed contract on this network",
+  },
+  Factory__SameAddress: {
+    explanation: "A pair cannot be made of the same token twice",
+    remedy: "Pass two different tokens",
+  },
+  Factory__ZeroAddress: {
+    explanation: "One of the tokens is the zero address",
+    remedy: "Pass the addresses of two deployed tokens",
+  },
+  Factory__AlreadyDeployed: {
+    explanation: "The pair of these tokens and curve already exists",
+    remedy: "Use the existing pair returned by Factory.getPair",
+  },
+  Factory__Unauthorized: {
+    explanation:
+      "Only the governor can call this function, and the governor cannot be set to the zero address",
+    remedy: "Send the transaction from the governor with a non zero address",
+  },
+  Factory__NotAPair: {
+    explanation: "The address is not a pair deployed by the factory",
+    remedy: "Pass the address returned by Factory.getPair",
+  },
+  Factory__FeeTooHigh: {
+    explanation:
+      "The swap fee is higher than Factory.MAX_SWAP_FEE, or the protocol fee is higher than Factory.MAX_PROTOCOL_FEE",
+    remedy: "Pass a swap fee of at most 1% or a protocol fee of at most 50%",
+  },
+  Factory__InvalidTwap: {
+    explanation:
+      "The TWAP granularity is not between 2 and Factory.MAX_TWAP_GRANULARITY, or the window is not a multiple of it or is longer than Factory.MAX_TWAP_WINDOW",
+    remedy:
+      "Pass a window of at most 7 days that splits into 2 to 48 periods of whole seconds",
+  },
+  Factory__DeployFailed: {
+    explanation:
+      "The factory could not deploy the contract that stores the creation code of the pairs",
+    remedy: "Deploy the factory with a higher gas limit",
+  },
+  Lens__NotAPair: {
+    explanation: "The address is not a pair deployed by the factory",
+    remedy: "Pass the address returned by Factory.getPair",
+  },
+  LPOracle__NotAPair: {
+    explanation: "The LP token is not a pair deployed by the factory",
+    remedy: "Pass the address returned by Factory.getPair",
+  },
+  LPOracle__InvalidToken: {
+    explanation: "The quote token is not a token of the pair",
+    remedy: "Quote the LP token in token0 or token1 of the pair",
+  },
+  LPOracle__NoLiquidity: {
+    explanation: "The pair has no reserves, so it has no price",
+    remedy: "Add liquidity to the pair and wait for its TWAP",
+  },
+  OracleAdapter__InvalidPath: {
+    explanation:
+      "The adapter has no pairs, too many pairs, or a pair without the token bought on the previous hop",
+    remedy:
+      "Pass up to 3 pairs that chain from tokenIn, e.g. TOKEN/WNT then WNT/USDC",
+  },
+  OracleAdapter__NoRoundData: {
+    explanation:
+      "The adapter computes the TWAP on every call and keeps no past rounds",
+    remedy: "Call latestRoundData instead",
+  },
+  OracleAdapterFactory__NotAPair: {
+    explanation: "A pair of the path was not deployed by the factory",
+    remedy: "Pass pairs of Factory.getPair",
+  },
+  OracleAdapterFactory__AlreadyDeployed: {
+    explanation: "The adapter of these pairs and token in already exists",
+    remedy: "Read its address with OracleAdapterFactory.getAdapter",
+  },
+  Pair__Reentrancy: {
+    explanation: "The pair was called again while it was executing",
+    remedy: "Do not call back into the pair from a token or a swap hook",
+  },
+  Pair__MissingObservation: {
+    explanation:
+      "The pair has no observation at the start of the TWAP window, because it has not traded for a while or its history is shorter than the window",
+    remedy:
+      "Call Pair.sync or trade with the pair to record new observations, or call Pair.increaseObservationCardinalityNext to keep a longer history",
+  },
+  Pair__NoLiquidity: {
+    explanation:
+      "The deposit mints no LP tokens, or the swap asks for more tokens than the reserves",
+    remedy: "Deposit more tokens or ask for less than the reserves",
+  },
+  Pair__NoTokensToBurn: {
+    explanation: "Burning these LP tokens returns no tokens",
+    remedy: "Transfer more LP tokens to the pair before burning",
+  },
+  Pair__NoZeroTrades: {
+    explanation: "The swap asks for zero of both tokens",
+    remedy: "Pass a non zero amount out",
+  },
+  Pair__InvalidReceiver: {
+    explanation: "The receiver of a swap cannot be one of the tokens",
+    remedy: "Send the tokens to another address",
+  },
+  Pair__InsufficientAmountIn: {
+    explanation: "No tokens were sent to the pair before the swap",
+    remedy: "Transfer the input tokens to the pair before calling swap",
+  },
+  Pair__K: {
+    explanation:
+      "The swap lowers the invariant of the pair after fees, so the amount out is too high for the amount in",
+    remedy: "Quote the amount out with Pair.getAmountOut before swapping",
+  },
+  Pair__PermitExpired: {
+    explanation: "The deadline of the permit has passed",
+    remedy: "Sign a new permit with a later deadline",
+  },
+  Pair__InvalidSignature: {
+    explanation:
+      "The permit was not signed by the owner, or its nonce or domain is wrong",
+    remedy:
+      "Sign the permit again with the current nonce and the domain separator of the pair",
+  },
+  Pair__Unauthorized: {
+    explanation: "Only the factory can change the TWAP settings of a pair",
+    remedy: "Call Factory.setPairTwap from the governor",
+  },
+  Pair__ZeroSecondsAgo: {
+    explanation: "A TWAP needs a window of at least one second",
+    remedy:
+      "Pass a non zero secondsAgo, or use Pair.getAmountOut for the spot price",
+  },
+  Router__Expired: {
+    explanation: "The deadline of the transaction has passed",
+    remedy: "Send the transaction again with a later deadline",
+  },
+  Router__SameAddress: {
+    explanation: "A pair cannot be made of the same token twice",
+    remedy: "Pass two different tokens",
+  },
+  Router__ZeroAddress: {
+    explanation: "One of the tokens is the zero address",
+    remedy: "Pass the addresses of two deployed tokens",
+  },
+  Router__InvalidPath: {
+    explanation: "The route has no hops",
+    remedy: "Pass at least one route",
+  },
+  Router__ZeroAmount: {
+    explanation: "The amount to quote is zero",
+    remedy: "Pass a non zero amount",
+  },
+  Router__InsufficientAmountA: {
+    explanation: "The amount of tokenA is below amountAMin",
+    remedy: "Increase the slippage tolerance or quote the liquidity again",
+  },
+  Router__InsufficientAmountB: {
+    explanation: "The amount of tokenB is below amountBMin",
+    remedy: "Increase the slippage tolerance or quote the liquidity again",
+  },
+  Router__InsufficientOutput: {
+    explanation: "The amount out is below amountOutMin",
+    remedy: "Increase the slippage tolerance or quote the swap again",
+  },
+  Router__InvalidRoute: {
+    explanation:
+      "A native token swap must start or end with the wrapped native token",
+    remedy: "Start or end the route with Router.WNT",
+  },
+  Router__TransferFailed: {
+    explanation: "The token transfer failed",
+    remedy: "Check the balance of the sender and that the token is an ERC20",
+  },
+  Router__TransferFromFailed: {
+    explanation: "The router could not pull the tokens from the sender",
+    remedy: "Approve the router and check the balance of the sender",
+  },
+  Router__NativeTokenTransferFailed: {
+    explanation: "The router could not send the native token",
+    remedy: "Make sure the receiver can accept the native token",
+  },
+  Router__NoLiquidity: {
+    explanation:
+      "The pair has no reserves, or no pair of a hop has enough reserves to buy the amount out",
+    remedy: "Add liquidity to the pair first or buy less",
+  },
+  Router__InvalidAmountA: {
+    explanation: "amountAMin is higher than amountADesired",
+    remedy: "Pass an amountAMin lower than or equal to amountADesired",
+  },
+  Router__InvalidAmountB: {
+    explanation: "amountBMin is higher than amountBDesired",
+    remedy: "Pass an amountBMin lower than or equal to amountBDesired",
+  },
+  Router__ExcessiveInput: {
+    explanation: "The amount in is above amountInMax or the native token sent",
+    remedy: "Increase the slippage tolerance or quote the swap again",
+  },
+  Router__PairNotFound: {
+    explanation:
+      "A hop of the route forces a stable or volatile pair that does not exist",
+    remedy: "Create the pair or use PoolType.Auto for that hop",
+  },
+  Router__InvalidSplit: {
+    explanation:
+      "The amount to sell in the stable pair is higher than amountIn",
+    remedy: "Quote the split with Router.getSplitAmountOut",
+  },
+  Router__InsufficientBalance: {
+    explanation:
+      "The router holds less than amountMinimum of the token to unwrap or sweep",
+    remedy:
+      "Send the output of the previous call of the multicall to the router, or lower amountMinimum",
+  },
+  Zap__Expired: {
+    explanation: "The deadline of the transaction has passed",
+    remedy: "Send the transaction again with a later deadline",
+  },
+  Zap__ZeroAmount: {
+    explanation: "The amount to zap is zero",
+    remedy: "Pass a non zero amount",
+  },
+  Zap__InvalidToken: {
+    explanation: "The token to zap in or out is not one of the pair tokens",
+    remedy: "Pass one of the two tokens of the pair",
+  },
+  Zap__PairNotFound: {
+    explanation: "The factory has no pair of these tokens and curve",
+    remedy: "Create the pair or zap into the other curve",
+  },
+  Zap__NoLiquidity: {
+    explanation: "The pair has no reserves to swap against",
+    remedy: "Add liquidity with both tokens through the router first",
+  },
+  Zap__InsufficientLiquidity: {
+    explanation: "The LP tokens minted are below minLiquidity",
+    remedy: "Increase the slippage tolerance or quote the zap again",
+  },
+  Zap__InsufficientOutput: {
+    explanation: "The amount out is below amountOutMin",
+    remedy: "Increase the slippage tolerance or quote the zap again",
+  },
+  NativeTokenTransferFailed: {
+    explanation: "The native token transfer failed",
+    remedy: "Make sure the receiver can accept the native token",
+  },
+  TransferFromFailed: {
+    explanation: "The tokens could not be pulled from the sender",
+    remedy: "Approve the spender and check the balance of the sender",
+  },
+  TransferFailed: {
+    explanation: "The token transfer failed",
+    remedy: "Check the balance of the sender and that the token is an ERC20",
+  },
+  ApproveFailed: {
+    explanation: "The token approval failed",
+    remedy: "Check that the token is an ERC20",
+  },
+};
+
+// Errors of the Solidity compiler. ethers does not accept them in an {Interface}, so they are decoded by selector.
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// Same codes as https://docs.soliditylang.org/en/v0.8.17/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_CODES: Record<number, string> = {
+  0x01: "An assert failed",
+  0x11: "An arithmetic operation overflowed or underflowed",
+  0x12: "Division or modulo by zero",
+  0x21: "A value was converted to an invalid enum",
+  0x22: "A storage byte array was incorrectly encoded",
+  0x31: "pop was called on an empty array",
+  0x32: "An array was accessed out of bounds",
+  0x41: "Too much memory was allocated",
+  0x51: "An uninitialized function was called",
+};
+
+const errorInterface = new utils.Interface(
+  Object.keys(ERRORS).map((name) => `error ${name}()`)
+);
+
+const getSource = (name: string) =>
+  name.includes("__") ? name.split("__")[0] : "SafeTransferLib";
+
+const isRevertData = (value: unknown): value is string =>
+  typeof value === "string" &&
+  utils.isHexString(value) &&
+  (value.length === 2 || value.length >= 10);
+
+/**
+ * @dev Finds the revert data of an error thrown by ethers or Hardhat. The data is nested at different depths depending on the provider, e.g. `error.data`, `error.error.data` or `error.error.error.data`.
+ */
+export const getRevertData = (
+  error: unknown,
+  depth = 0
+): string | undefined => {
+  if (isRevertData(error)) return error;
+
+  if (!error || typeof error !== "object" || depth > 5) return;
+
+  const { data, error: nested } = error as { data?: unknown; error?: unknown };
+
+  return getRevertData(data, depth + 1) || getRevertData(nested, depth + 1);
+};
+
+/**
+ * @dev Decodes revert data or a thrown error into the error of the protocol that caused it. It returns undefined if no revert data can be found.
+ */
+export const decodeError = (errorOrData: unknown): DecodedError | undefined => {
+  const data = getRevertData(errorOrData);
+
+  if (data === undefined) return;
+
+  if (data === "0x")
+    return {
+      name: "EmptyRevert",
+      source: "Unknown",
+      signature: "",
+      selector: "0x",
+      args: [],
+      explanation:
+        "The call reverted without data. MathLib does so when a fixed point operation overflows, and calls to addresses without code do so too",
+      remedy: "Check the amounts and that every address is a deployed contract",
+    };
+
+  const selector = utils.hexDataSlice(data, 0, 4);
+
+  if (selector === ERROR_SELECTOR) {
+    const args = utils.defaultAbiCoder.decode(
+      ["string reason"],
+      utils.hexDataSlice(data, 4)
+    );
+
+    return {
+      name: "Error",
+      source: "Solidity",
+      signature: "Error(string)",
+      selector,
+      args,
+      explanation: args.reason,
+      remedy: "Check the require statement that throws this message",
+    };
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    const args = utils.defaultAbiCoder.decode(
+      ["uint256 code"],
+      utils.hexDataSlice(data, 4)
+    );
+    const code = BigNumber.from(args.code).toNumber();
+
+    return {
+      name: "Panic",
+      source: "Solidity",
+      signature: "Panic(uint256)",
+      selector,
+      args,
+      explanation:
+        PANIC_CODES[code] || `Panic with code 0x${code.toString(16)}`,
+      remedy:
+        "Check the amounts, as the contract hit a state it does not expect",
+    };
+  }
+
+  let description: ReturnType<typeof errorInterface.parseError>;
+
+  try {
+    description = errorInterface.parseError(data);
+  } catch (error) {
+    return {
+      name: "Unknown",
+      source: "Unknown",
+      signature: selector,
+      selector,
+      args: [],
+      explanation: `The selector ${selector} does not match any error of the protocol`,
+      remedy:
+        "Decode the revert data with the ABI of the contract that threw it",
+    };
+  }
+
+  const { name, signature, args } = description;
+
+  return {
+    name,
+    source: getSource(name),
+    signature,
+    selector,
+    args,
+    explanation: ERRORS[name].explanation,
+    remedy: ERRORS[name].remedy,
+  };
+};
+
+export const formatError = ({ name, explanation, remedy }: DecodedError) =>
+  `${name}: ${explanation}. ${remedy}.`;
@@ -0,0 +1,257 @@
+import fs from "fs";
+import path from "path";
+
+import { BigNumber, providers, utils } from "ethers";
+
+import { FACTORY_ABI, PAIR_ABI } from "./abis";
+
+export const INDEXER_DIR = path.join(__dirname, "..", "indexer");
+
+const factoryInterface = new utils.Interface(FACTORY_ABI);
+const pairInterface = new utils.Interface(PAIR_ABI);
+
+const PAIR_TOPICS = Object.values(pairInterface.events).map((fragment) =>
+  pairInterface.getEventTopic(fragment)
+);
+
+export interface IndexedEvent {
+  name: string;
+  // The factory for {PairCreated} and the pair for the other events.
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  // Numbers are stored as decimal strings.
+  args: Record<string, string | boolean>;
+}
+
+export interface IndexedPair {
+  address: string;
+  token0: string;
+  token1: string;
+  stable: boolean;
+  blockNumber: number;
+}
+
+export interface IndexerState {
+  chainId: number;
+  factory: string;
+  // First block to index, usually the block that deployed the factory.
+  startBlock: number;
+  // Last indexed block. Blocks after `finalized` may still be re-processed.
+  cursor: number;
+  // Last block that is at least `confirmations` deep. Its hash is checked on every sync to detect reorgs that are too deep to recover from.
+  finalized: { number: number; hash: string } | null;
+  pairs: Array<IndexedPair>;
+  events: Array<IndexedEvent>;
+}
+
+export interface SyncOptions {
+  // Blocks that are indexed but re-processed on the next sync, as they can still be reorged.
+  confirmations?: number;
+  // Maximum number of blocks per `eth_getLogs` request.
+  batchSize?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  // Events removed because their blocks were re-processed.
+  removed: number;
+  added: number;
+}
+
+export const getIndexerPath = (networkName: string) =>
+  path.join(INDEXER_DIR, `${networkName}.json`);
+
+export const createState = (
+  chainId: number,
+  factory: string,
+  startBlock: number
+): IndexerState => ({
+  chainId,
+  factory,
+  startBlock,
+  cursor: startBlock - 1,
+  finalized: null,
+  pairs: [],
+  events: [],
+});
+
+/**
+ * @dev Reads the state at `file`, or creates a new one if the file does not exist.
+ * It throws if the state on disk was written for a different chain or factory.
+ */
+export const loadState = (
+  file: string,
+  chainId: number,
+  factory: string,
+  startBlock: number
+): IndexerState => {
+  if (!fs.existsSync(file)) return createState(chainId, factory, startBlock);
+
+  const state: IndexerState = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  if (
+    state.chainId !== chainId ||
+    state.factory.toLowerCase() !== factory.toLowerCase()
+  )
+    throw new Error(
+      `Indexer state at ${file} was written for factory ${state.factory} on chain ${state.chainId}`
+    );
+
+  return state;
+};
+
+// Writes to a temporary file first, so a crash never leaves a half written state behind.
+export const saveState = (file: string, state: IndexerState) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(state, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+};
+
+const toHex = (value: number) => utils.hexValue(value);
+
+// Keeps the named arguments only and turns numbers into strings, so the event can be stored as JSON.
+const serializeArgs = (args: utils.Result) =>
+  Object.keys(args)
+    .filter((key) => isNaN(Number(key)))
+    .reduce<Record<string, string | boolean>>((acc, key) => {
+      const value = args[key];
+      acc[key] = BigNumber.isBigNumber(value) ? value.toString() : value;
+      return acc;
+    }, {});
+
+const toEvent = (log: providers.Log, event: utils.LogDescription) => ({
+  name: event.name,
+  address: utils.getAddress(log.address),
+  blockNumber: BigNumber.from(log.blockNumber).toNumber(),
+  blockHash: log.blockHash,
+  transactionHash: log.transactionHash,
+  logIndex: BigNumber.from(log.logIndex).toNumber(),
+  args: serializeArgs(event.args),
+});
+
+// {JsonRpcProvider.getLogs} only accepts a single address, so the request is sent directly to filter by every pair at once.
+const getLogs = (
+  provider: providers.JsonRpcProvider,
+  address: string | Array<string>,
+  topics: Array<Array<string>>,
+  fromBlock: number,
+  toBlock: number
+): Promise<Array<providers.Log>> =>
+  provider.send("eth_getLogs", [
+    { address, topics, fromBlock: toHex(fromBlock), toBlock: toHex(toBlock) },
+  ]);
+
+/**
+ * @dev Drops every pair and event at or after `blockNumber`.
+ */
+export const rollback = (state: IndexerState, blockNumber: number) => {
+  const length = state.events.length;
+
+  state.pairs = state.pairs.filter((pair) => pair.blockNumber < blockNumber);
+  state.events = state.events.filter(
+    (event) => event.blockNumber < blockNumber
+  );
+  state.cursor = Math.min(state.cursor, blockNumber - 1);
+
+  return length - state.events.length;
+};
+
+const indexRange = async (
+  provider: providers.JsonRpcProvider,
+  state: IndexerState,
+  fromBlock: number,
+  toBlock: number
+) => {
+  const factoryLogs = await getLogs(
+    provider,
+    state.factory,
+    [[factoryInterface.getEventTopic("PairCreated")]],
+    fromBlock,
+    toBlock
+  );
+
+  const events = factoryLogs.map((log) => {
+    const event = toEvent(log, factoryInterface.parseLog(log));
+
+    state.pairs.push({
+      address: utils.getAddress(event.args.pair as string),
+      token0: event.args.token0 as string,
+      token1: event.args.token1 as string,
+      stable: event.args.stable as boolean,
+      blockNumber: event.blockNumber,
+    });
+
+    return event;
+  });
+
+  // Pairs created in this range are already in `state.pairs`, and they cannot log anything before their creation.
+  if (state.pairs.length) {
+    const pairLogs = await getLogs(
+      provider,
+      state.pairs.map(({ address }) => address),
+      [PAIR_TOPICS],
+      fromBlock,
+      toBlock
+    );
+
+    for (const log of pairLogs)
+      events.push(toEvent(log, pairInterface.parseLog(log)));
+  }
+
+  events.sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  );
+  state.events.push(...events);
+  state.cursor = toBlock;
+
+  return events.length;
+};
+
+/**
+ * @dev Indexes every block from the cursor to the head of the chain. The last `confirmations` blocks are indexed but dropped and indexed again on the next sync, so a reorg of up to `confirmations` blocks is picked up.
+ * It throws if the last finalized block was reorged, as the state can no longer be trusted.
+ */
+export const sync = async (
+  provider: providers.JsonRpcProvider,
+  state: IndexerState,
+  { confirmations = 12, batchSize = 2_000 }: SyncOptions = {}
+): Promise<SyncResult> => {
+  if (state.finalized) {
+    const block = await provider.getBlock(state.finalized.number);
+
+    if (!block || block.hash !== state.finalized.hash)
+      throw new Error(
+        `Block ${state.finalized.number} was reorged. The indexer only recovers from reorgs of up to ${confirmations} blocks`
+      );
+  }
+
+  const head = await provider.getBlockNumber();
+  const fromBlock = state.finalized
+    ? state.finalized.number + 1
+    : state.startBlock;
+
+  const removed = rollback(state, fromBlock);
+  let added = 0;
+
+  for (let start = fromBlock; start <= head; start += batchSize)
+    added += await indexRange(
+      provider,
+      state,
+      start,
+      Math.min(start + batchSize - 1, head)
+    );
+
+  const finalized = head - confirmations;
+
+  if (finalized >= state.startBlock)
+    state.finalized = {
+      number: finalized,
+      hash: (await provider.getBlock(finalized)).hash,
+    };
+
+  return { fromBlock, toBlock: head, removed, added };
+};
@@ -0,0 +1,226 @@
+import { BigNumber, Contract, providers, Signer } from "ethers";
+
+import { PAIR_ABI } from "./abis";
+import { decodeError } from "./errors";
+
+export interface KeeperLogEntry {
+  time: string;
+  level: "info" | "warn" | "error";
+  event: string;
+  // Big numbers are logged as decimal strings.
+  [key: string]: string | number | boolean | undefined;
+}
+
+export interface KeeperOptions {
+  // Seconds before the deadline of a pair at which it is synced. It is capped below the period size of the pair, as a sync only records an observation once a whole period has passed.
+  margin?: number;
+  // Maximum fee per gas in wei. The syncs are skipped while the network asks for more, and sent with it as the cap of their fee.
+  maxGasPrice?: BigNumber;
+  // Logs the syncs that are due without sending them.
+  dryRun?: boolean;
+  log?: (entry: KeeperLogEntry) => void;
+}
+
+export interface PairSchedule {
+  pair: string;
+  periodSize: number;
+  // Timestamp of the last observation of the pair.
+  lastObservation: number;
+  // The window of {Pair.getTokenPrice} needs an observation at most two periods after the previous one, so the TWAP goes stale after this timestamp.
+  deadline: number;
+  // When the keeper syncs the pair if nobody trades before.
+  syncAt: number;
+}
+
+export type KeeperAction =
+  | "wait"
+  | "sync"
+  | "dry-run"
+  | "gas-price-too-high"
+  | "failed";
+
+export interface KeeperResult extends PairSchedule {
+  action: KeeperAction;
+  transactionHash?: string;
+}
+
+// One JSON object per line, so the logs can be shipped as they are.
+export const logJson = (entry: KeeperLogEntry) =>
+  console.log(JSON.stringify(entry));
+
+const createLogger =
+  (log: (entry: KeeperLogEntry) => void) =>
+  (
+    level: KeeperLogEntry["level"],
+    event: string,
+    fields: Record<string, string | number | boolean | undefined> = {}
+  ) =>
+    log(
+      Object.assign({ time: new Date().toISOString(), level, event }, fields)
+    );
+
+/**
+ * @dev Reads when `pair` must be synced, from its last observation in the ring buffer and its period size.
+ */
+export const getSchedule = async (
+  provider: providers.Provider,
+  pair: string,
+  margin: number
+): Promise<PairSchedule> => {
+  const contract = new Contract(pair, PAIR_ABI, provider);
+
+  const [index, periodSize] = await Promise.all([
+    contract.observationIndex(),
+    contract.twapPeriodSize(),
+  ]);
+
+  const lastObservation: number = (
+    await contract.observations(index)
+  ).timestamp.toNumber();
+  const period: number = periodSize.toNumber();
+  const deadline = lastObservation + period * 2;
+
+  return {
+    pair,
+    periodSize: period,
+    lastObservation,
+    deadline,
+    // A sync within the period of the last observation only updates the reserves
+    syncAt: Math.max(
+      lastObservation + period + 1,
+      deadline - Math.min(margin, period - 1)
+    ),
+  };
+};
+
+/**
+ * @dev Syncs every pair of `pairs` whose observations go stale within `margin` seconds, once. The time is the timestamp of the latest block, so it follows the time travel of a local node.
+ * A pair that fails to sync is logged and does not stop the others.
+ */
+export const keep = async (
+  signer: Signer,
+  pairs: ReadonlyArray<string>,
+  {
+    margin = 60,
+    maxGasPrice,
+    dryRun = false,
+    log: sink = logJson,
+  }: KeeperOptions = {}
+): Promise<Array<KeeperResult>> => {
+  const log = createLogger(sink);
+  const provider = signer.provider;
+
+  if (!provider) throw new Error("The keeper needs a signer with a provider");
+
+  const [{ timestamp: now }, feeData] = await Promise.all([
+    provider.getBlock("latest"),
+    provider.getFeeData(),
+  ]);
+
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+  const results: Array<KeeperResult> = [];
+
+  for (const pair of pairs) {
+    const schedule = await getSchedule(provider, pair, margin);
+    const fields = {
+      pair,
+      now,
+      lastObservation: schedule.lastObservation,
+      deadline: schedule.deadline,
+      syncAt: schedule.syncAt,
+    };
+
+    if (now < schedule.syncAt) {
+      log("info", "wait", fields);
+      results.push(Object.assign({ action: "wait" as const }, schedule));
+      continue;
+    }
+
+    if (now > schedule.deadline)
+      log(
+        "warn",
+        "stale",
+        Object.assign({ staleFor: now - schedule.deadline }, fields)
+      );
+
+    if (maxGasPrice && gasPrice && gasPrice.gt(maxGasPrice)) {
+      log(
+        "warn",
+        "gas-price-too-high",
+        Object.assign(
+          {
+            gasPrice: gasPrice.toString(),
+            maxGasPrice: maxGasPrice.toString(),
+          },
+          fields
+        )
+      );
+      results.push(
+        Object.assign({ action: "gas-price-too-high" as const }, schedule)
+      );
+      continue;
+    }
+
+    if (dryRun) {
+      log("info", "dry-run", fields);
+      results.push(Object.assign({ action: "dry-run" as const }, schedule));
+      continue;
+    }
+
+    // EIP-1559 transactions never pay more than the cap. Legacy transactions pay the gas price that passed the check
+    const overrides =
+      maxGasPrice && feeData.maxFeePerGas && feeData.maxPriorityFeePerGas
+        ? {
+            maxFeePerGas: maxGasPrice,
+            maxPriorityFeePerGas: feeData.maxPriorityFeePerGas.gt(maxGasPrice)
+              ? maxGasPrice
+              : feeData.maxPriorityFeePerGas,
+          }
+        : {};
+
+    try {
+      const tx = await new Contract(pair, PAIR_ABI, signer).sync(overrides);
+      const receipt = await tx.wait();
+
+      log(
+        "info",
+        "sync",
+        Object.assign(
+          {
+            transactionHash: receipt.transactionHash,
+            blockNumber: receipt.blockNumber,
+            gasUsed: receipt.gasUsed.toString(),
+          },
+          fields
+        )
+      );
+      results.push(
+        Object.assign(
+          { action: "sync" as const, transactionHash: receipt.transactionHash },
+          schedule
+        )
+      );
+    } catch (error) {
+      // The name of the custom error of a revert, or the message of any other error
+      const reason =
+        decodeError(error)?.name ??
+        (error instanceof Error ? error.message : String(error));
+
+      log("error", "failed", Object.assign({ error: reason }, fields));
+      results.push(Object.assign({ action: "failed" as const }, schedule));
+    }
+  }
+
+  return results;
+};
+
+/**
+ * @dev Returns the seconds until the next pair of `results` that is waiting must be synced, so a loop can sleep until then. Infinity if no pair is waiting.
+ */
+export const getSecondsUntilNextSync = (
+  results: ReadonlyArray<KeeperResult>,
+  now: number
+) =>
+  results
+    .filter(({ action }) => action === "wait")
+    .reduce((seconds, { syncAt }) => Math.min(seconds, syncAt - now), Infinity);
@@ -0,0 +1,59 @@
+import { CallOverrides, constants } from "ethers";
+
+import { Lens } from "../typechain";
+
+// A pair and the position of an account in it, see {Lens.getPairInfo}.
+export type PairInfo = ReturnType<Lens["getPairInfo"]> extends Promise<
+  infer Info
+>
+  ? Info
+  : never;
+
+export interface GetAllPairsOptions {
+  // Pairs per call. It is halved down to 1 while the calls fail, as nodes cap the gas and the size of the response of `eth_call`.
+  pageSize?: number;
+  overrides?: CallOverrides;
+}
+
+/**
+ * @dev Reads every pair of the factory of `lens` and the positions of `account` with {Lens.getPairs}, one page per call.
+ * A page that fails is split in two and the smaller page size is kept for the next pages. It throws the error of a page of one pair, as splitting cannot fix it.
+ */
+export const getAllPairs = async (
+  lens: Lens,
+  account: string = constants.AddressZero,
+  { pageSize = 100, overrides = {} }: GetAllPairsOptions = {}
+): Promise<Array<PairInfo>> => {
+  const pairs: Array<PairInfo> = [];
+
+  let size = pageSize;
+  // Pairs created while reading are picked up, as every page returns the current length
+  let length = Infinity;
+
+  while (pairs.length < length) {
+    let page: Array<PairInfo>;
+
+    try {
+      const result = await lens.getPairs(
+        pairs.length,
+        size,
+        account,
+        overrides
+      );
+
+      page = result.pairs;
+      length = result.allPairsLength.toNumber();
+    } catch (error) {
+      if (size === 1) throw error;
+
+      size = Math.ceil(size / 2);
+      continue;
+    }
+
+    if (!page.length) break;
+
+    pairs.push(...page);
+  }
+
+  return pairs;
+};
@@ -0,0 +1,102 @@
+import { BigNumberish, utils } from "ethers";
+
+import { Router } from "../typechain";
+
+import { Permit } from "./permit";
+import { Route } from "./routes";
+
+type RouterFunction = keyof Router["functions"];
+
+// The arguments of a function of {Router} without the trailing overrides, as calls of a multicall cannot have their own.
+export type RouterCallArgs<F extends RouterFunction> = Parameters<
+  Router["functions"][F]
+> extends [...infer Args, unknown?]
+  ? Args
+  : never;
+
+// The fields of a {Permit} that {Router.selfPermit} needs. The owner is always the caller of the multicall.
+export type SelfPermit = Pick<Permit, "value" | "deadline" | "v" | "r" | "s">;
+
+/**
+ * @dev Encodes a call of any function of `router` to be batched with {Router.multicall}.
+ */
+export const encodeRouterCall = <F extends RouterFunction>(
+  router: Router,
+  fn: F,
+  ...args: RouterCallArgs<F>
+): string => (router.interface as utils.Interface).encodeFunctionData(fn, args);
+
+/**
+ * @dev Encodes {Router.selfPermitIfNecessary}, or {Router.selfPermit} if `ifNecessary` is false. `permit` must be signed for the router as the spender, e.g. with {signPermit}.
+ */
+export const encodeSelfPermit = (
+  router: Router,
+  token: string,
+  { value, deadline, v, r, s }: SelfPermit,
+  ifNecessary = true
+) =>
+  ifNecessary
+    ? encodeRouterCall(
+        router,
+        "selfPermitIfNecessary",
+        token,
+        value,
+        deadline,
+        v,
+        r,
+        s
+      )
+    : encodeRouterCall(router, "selfPermit", token, value, deadline, v, r, s);
+
+export const encodeUnwrapWNT = (
+  router: Router,
+  amountMinimum: BigNumberish,
+  to: string
+) => encodeRouterCall(router, "unwrapWNT", amountMinimum, to);
+
+export const encodeSweepToken = (
+  router: Router,
+  token: string,
+  amountMinimum: BigNumberish,
+  to: string
+) => encodeRouterCall(router, "sweepToken", token, amountMinimum, to);
+
+export interface SwapBatch {
+  amountIn: BigNumberish;
+  amountOutMin: BigNumberish;
+  routes: ReadonlyArray<Route>;
+  to: string;
+  deadline: BigNumberish;
+  // Permit of the first token of `routes` for the router. The caller must have approved the router if it is omitted.
+  permit?: SelfPermit;
+}
+
+/**
+ * @dev Encodes a permit of the input token, a {Router.swapExactTokensForTokens} and the transfer of the output to `to` in one {Router.multicall}.
+ * The swap sends its output to the router, which unwraps it if the route ends in WNT or sweeps it otherwise, so the permit is the only extra step over a plain swap.
+ */
+export const encodeSwapBatch = async (
+  router: Router,
+  { amountIn, amountOutMin, routes, to, deadline, permit }: SwapBatch
+): Promise<Array<string>> => {
+  const tokenIn = routes[0].from;
+  const tokenOut = routes[routes.length - 1].to;
+
+  const wnt = await router.WNT();
+
+  return [
+    ...(permit ? [encodeSelfPermit(router, tokenIn, permit)] : []),
+    encodeRouterCall(
+      router,
+      "swapExactTokensForTokens",
+      amountIn,
+      amountOutMin,
+      [...routes],
+      router.address,
+      deadline
+    ),
+    tokenOut.toLowerCase() === wnt.toLowerCase()
+      ? encodeUnwrapWNT(router, amountOutMin, to)
+      : encodeSweepToken(router, tokenOut, amountOutMin, to),
+  ];
+};
@@ -0,0 +1,136 @@
+import {
+  BigNumber,
+  BigNumberish,
+  constants,
+  Signer,
+  utils,
+  Wallet,
+} from "ethers";
+
+import { Pair } from "../typechain";
+
+// Any ethers signer that implements EIP-712, e.g. a {Wallet}, a {JsonRpcSigner} or a Hardhat {SignerWithAddress}.
+export type TypedDataSigner = Signer & Pick<Wallet, "_signTypedData">;
+
+// Same struct as the PERMIT_TYPEHASH of {Pair.permit}.
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// Version of the EIP-712 domain of {Pair}.
+const VERSION = "1";
+
+export interface Permit {
+  owner: string;
+  spender: string;
+  value: BigNumber;
+  nonce: BigNumber;
+  deadline: BigNumber;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// The last four arguments of {Router.removeLiquidityWithPermit} and {Router.removeLiquidityNativeTokenWithPermit}.
+export interface RouterPermit {
+  deadline: BigNumber;
+  approveMax: boolean;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * @dev Builds the EIP-712 domain of `pair` and checks it against {Pair.DOMAIN_SEPARATOR}, so a signature is never made for the wrong domain.
+ */
+export const getPermitDomain = async (pair: Pair) => {
+  const [name, { chainId }, domainSeparator] = await Promise.all([
+    pair.name(),
+    pair.provider.getNetwork(),
+    pair.DOMAIN_SEPARATOR(),
+  ]);
+
+  const domain = {
+    name,
+    version: VERSION,
+    chainId,
+    verifyingContract: pair.address,
+  };
+
+  if (utils._TypedDataEncoder.hashDomain(domain) !== domainSeparator)
+    throw new Error(
+      `Permit: the domain separator of ${pair.address} does not match chain ${chainId}`
+    );
+
+  return domain;
+};
+
+/**
+ * @dev Signs a permit that lets `spender` spend `value` LP tokens of the signer. It uses the current nonce of the signer.
+ */
+export const signPermit = async (
+  signer: TypedDataSigner,
+  pair: Pair,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish
+): Promise<Permit> => {
+  const owner = await signer.getAddress();
+
+  const [domain, nonce] = await Promise.all([
+    getPermitDomain(pair),
+    pair.nonces(owner),
+  ]);
+
+  const message = {
+    owner,
+    spender,
+    value: BigNumber.from(value),
+    nonce,
+    deadline: BigNumber.from(deadline),
+  };
+
+  const { v, r, s } = utils.splitSignature(
+    await signer._signTypedData(domain, PERMIT_TYPES, message)
+  );
+
+  return {
+    owner,
+    spender,
+    value: message.value,
+    nonce,
+    deadline: message.deadline,
+    v,
+    r,
+    s,
+  };
+};
+
+/**
+ * @dev Signs the permit that {Router.removeLiquidityWithPermit} and {Router.removeLiquidityNativeTokenWithPermit} submit for the caller.
+ * The router permits itself `liquidity` LP tokens, or the maximum amount if `approveMax` is true, so the signed value must follow the same rule.
+ */
+export const signRouterPermit = async (
+  signer: TypedDataSigner,
+  pair: Pair,
+  router: string,
+  liquidity: BigNumberish,
+  deadline: BigNumberish,
+  approveMax = false
+): Promise<RouterPermit> => {
+  const { v, r, s } = await signPermit(
+    signer,
+    pair,
+    router,
+    approveMax ? constants.MaxUint256 : liquidity,
+    deadline
+  );
+
+  return { deadline: BigNumber.from(deadline), approveMax, v, r, s };
+};
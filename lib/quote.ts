@@ -0,0 +1,211 @@
+import { BigNumber, BigNumberish, constants } from "ethers";
+
+/**
+ * @dev Off-chain port of the quoting logic of {Pair}. Every operation follows the same order and integer rounding as the contract,
+ * so the results match {Pair.getAmountOut} and {Pair.getAmountIn} to the wei. Operations that would revert on-chain because of checked arithmetic throw.
+ */
+
+const ONE = BigNumber.from(1);
+const THREE = BigNumber.from(3);
+const PRECISION = constants.WeiPerEther;
+
+// Same shape as the return value of {Pair.metadata}, so its result can be passed as is.
+export interface PairMetadata {
+  t0: string;
+  t1: string;
+  st: boolean;
+  fee: BigNumber;
+  r0: BigNumber;
+  r1: BigNumber;
+  dec0: BigNumber;
+  dec1: BigNumber;
+}
+
+const checked = (x: BigNumber) => {
+  if (x.isNegative() || x.gt(constants.MaxUint256))
+    throw new Error("Quote: arithmetic overflow or underflow");
+
+  return x;
+};
+
+const add = (x: BigNumber, y: BigNumberish) => checked(x.add(y));
+
+const sub = (x: BigNumber, y: BigNumberish) => checked(x.sub(y));
+
+const mul = (x: BigNumber, y: BigNumberish) => checked(x.mul(y));
+
+const div = (x: BigNumber, y: BigNumberish) => {
+  if (BigNumber.from(y).isZero()) throw new Error("Quote: division by zero");
+
+  return x.div(y);
+};
+
+// {MathLib.fmul}
+export const fmul = (x: BigNumber, y: BigNumberish) =>
+  div(mul(x, y), PRECISION);
+
+// {MathLib.fdiv}
+export const fdiv = (x: BigNumber, y: BigNumberish) =>
+  div(mul(x, PRECISION), y);
+
+// {Pair._k}
+export const k = (
+  x: BigNumber,
+  y: BigNumber,
+  stable: boolean,
+  decimals0: BigNumber,
+  decimals1: BigNumber
+) => {
+  if (!stable) return mul(x, y);
+
+  const _x = div(mul(x, PRECISION), decimals0);
+  const _y = div(mul(y, PRECISION), decimals1);
+  const _a = div(mul(_x, _y), PRECISION);
+  const _b = add(div(mul(_x, _x), PRECISION), div(mul(_y, _y), PRECISION));
+  return div(mul(_a, _b), PRECISION);
+};
+
+// {Pair._f}
+export const f = (x0: BigNumber, y: BigNumber) =>
+  add(
+    div(mul(x0, div(mul(div(mul(y, y), PRECISION), y), PRECISION)), PRECISION),
+    div(mul(div(mul(div(mul(x0, x0), PRECISION), x0), PRECISION), y), PRECISION)
+  );
+
+// {Pair._d}
+export const d = (x0: BigNumber, y: BigNumber) =>
+  add(
+    div(mul(mul(THREE, x0), div(mul(y, y), PRECISION)), PRECISION),
+    div(mul(div(mul(x0, x0), PRECISION), x0), PRECISION)
+  );
+
+// {Pair._getY}
+export const getY = (x0: BigNumber, xy: BigNumber, y: BigNumber) => {
+  for (let i = 0; i < 255; i++) {
+    const yPrev = y;
+    const _k = f(x0, y);
+
+    if (_k.lt(xy)) {
+      y = add(y, div(mul(sub(xy, _k), PRECISION), d(x0, y)));
+    } else {
+      y = sub(y, div(mul(sub(_k, xy), PRECISION), d(x0, y)));
+    }
+
+    if (y.gt(yPrev) ? sub(y, yPrev).lte(ONE) : sub(yPrev, y).lte(ONE)) return y;
+  }
+
+  return y;
+};
+
+/**
+ * @dev {Pair._computeAmountOut}. `amountIn` must have the fee removed already.
+ *
+ * @param amountIn The number of `tokenIn` being sold after fees
+ * @param tokenIn The token being sold. Anything other than token0 is treated as token1, like the contract does.
+ * @param metadata The pair metadata. {r0} and {r1} can be replaced by any reserves, e.g. TWAP reserves.
+ * @return BigNumber How many tokens of the other token are bought
+ */
+export const computeAmountOut = (
+  amountIn: BigNumber,
+  tokenIn: string,
+  { t0, st, r0, r1, dec0, dec1 }: PairMetadata
+) => {
+  const isToken0 = tokenIn.toLowerCase() === t0.toLowerCase();
+
+  if (st) {
+    const xy = k(r0, r1, st, dec0, dec1);
+    const _reserve0 = div(mul(r0, PRECISION), dec0);
+    const _reserve1 = div(mul(r1, PRECISION), dec1);
+    const [reserveA, reserveB] = isToken0
+      ? [_reserve0, _reserve1]
+      : [_reserve1, _reserve0];
+    const _amountIn = div(mul(amountIn, PRECISION), isToken0 ? dec0 : dec1);
+    const y = sub(reserveB, getY(add(_amountIn, reserveA), xy, reserveB));
+    return div(mul(y, isToken0 ? dec1 : dec0), PRECISION);
+  }
+
+  const [reserveA, reserveB] = isToken0 ? [r0, r1] : [r1, r0];
+  return div(mul(amountIn, reserveB), add(reserveA, amountIn));
+};
+
+/**
+ * @dev {Pair.getAmountOut}
+ *
+ * @param metadata The result of {Pair.metadata}
+ * @param tokenIn The token to be swaped for the other
+ * @param amountIn Number of tokens used to buy the other token
+ * @return BigNumber The number of tokens received after the swap
+ */
+export const getAmountOut = (
+  metadata: PairMetadata,
+  tokenIn: string,
+  amountIn: BigNumberish
+) => {
+  const _amountIn = BigNumber.from(amountIn);
+
+  // The fee removal is unchecked on-chain, but it can never underflow as the fee is below 100%.
+  return computeAmountOut(
+    _amountIn.sub(fmul(_amountIn, metadata.fee)),
+    tokenIn,
+    metadata
+  );
+};
+
+/**
+ * @dev {Pair._computeAmountIn}. The result does not include the fee.
+ *
+ * @param amountOut The number of `tokenOut` being bought
+ * @param tokenOut The token being bought. Anything other than token0 is treated as token1, like the contract does.
+ * @param metadata The pair metadata. {r0} and {r1} can be replaced by any reserves.
+ * @return BigNumber How many tokens of the other token must be sold before fees
+ */
+export const computeAmountIn = (
+  amountOut: BigNumber,
+  tokenOut: string,
+  { t0, st, r0, r1, dec0, dec1 }: PairMetadata
+) => {
+  const isToken0 = tokenOut.toLowerCase() === t0.toLowerCase();
+  const [reserveIn, reserveOut] = isToken0 ? [r1, r0] : [r0, r1];
+
+  // {Pair__NoLiquidity}
+  if (amountOut.gte(reserveOut))
+    throw new Error("Quote: the amount out is not lower than the reserve");
+  if (amountOut.isZero()) return amountOut;
+
+  if (st) {
+    const xy = k(r0, r1, st, dec0, dec1);
+    const [decimalsIn, decimalsOut] = isToken0 ? [dec1, dec0] : [dec0, dec1];
+    const _reserveIn = div(mul(reserveIn, PRECISION), decimalsIn);
+    const _reserveOut = div(mul(reserveOut, PRECISION), decimalsOut);
+    const _amountOut = div(mul(amountOut, PRECISION), decimalsOut);
+    const x = getY(sub(_reserveOut, _amountOut), xy, _reserveIn);
+    const amountIn = x.gt(_reserveIn) ? add(sub(x, _reserveIn), ONE) : ONE;
+    return div(sub(add(mul(amountIn, decimalsIn), PRECISION), ONE), PRECISION);
+  }
+
+  return add(div(mul(reserveIn, amountOut), sub(reserveOut, amountOut)), ONE);
+};
+
+/**
+ * @dev {Pair.getAmountIn}
+ *
+ * @param metadata The result of {Pair.metadata}
+ * @param tokenOut The token to be bought
+ * @param amountOut Number of `tokenOut` to buy
+ * @return BigNumber The number of the other token to send, fee included
+ */
+export const getAmountIn = (
+  metadata: PairMetadata,
+  tokenOut: string,
+  amountOut: BigNumberish
+) => {
+  const amountIn = computeAmountIn(
+    BigNumber.from(amountOut),
+    tokenOut,
+    metadata
+  );
+
+  if (amountIn.isZero()) return amountIn;
+
+  return add(fdiv(amountIn, sub(PRECISION, metadata.fee)), ONE);
+};
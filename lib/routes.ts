@@ -0,0 +1,263 @@
+import { BigNumber, BigNumberish, constants, Contract } from "ethers";
+
+import { Factory, Pair, Router } from "../typechain";
+
+import { PAIR_ABI } from "./abis";
+import { getAmountOut, PairMetadata } from "./quote";
+
+const PRECISION = constants.WeiPerEther;
+
+// Mirror of the {PoolType} enum, and of the {Route} and {Amount} structs in DataTypes.sol
+export const PoolType = {
+  Auto: 0,
+  Stable: 1,
+  Volatile: 2,
+} as const;
+
+export interface Route {
+  from: string;
+  to: string;
+  poolType: typeof PoolType[keyof typeof PoolType];
+}
+
+export interface Amount {
+  amount: BigNumber;
+  stable: boolean;
+}
+
+export interface Pool {
+  address: string;
+  metadata: PairMetadata;
+}
+
+export interface BestRoute {
+  routes: Array<Route>;
+  // Same layout as {Router.getAmountsOut}. The first element is the amount in.
+  amounts: Array<Amount>;
+  // The pair used by each hop.
+  pairs: Array<string>;
+  // 1e18 is 100%. It includes the swap fees.
+  priceImpact: BigNumber;
+}
+
+export interface FindRouteOptions {
+  // Maximum number of swaps in a route.
+  maxHops?: number;
+  // If passed, the best route is quoted again with {Router.getAmountsOut} and the on-chain amounts are returned.
+  router?: Router;
+}
+
+type Graph = Map<string, Array<{ token: string; pool: Pool }>>;
+
+const toKey = (token: string) => token.toLowerCase();
+
+/**
+ * @dev Fetches the metadata of every pair deployed by `factory`. Pairs without liquidity are left out as they cannot quote.
+ */
+export const fetchPools = async (factory: Factory): Promise<Array<Pool>> => {
+  const length = (await factory.allPairsLength()).toNumber();
+
+  const addresses = await Promise.all(
+    Array.from({ length }, (_, index) => factory.allPairs(index))
+  );
+
+  const pools = await Promise.all(
+    addresses.map(async (address) => ({
+      address,
+      metadata: await (
+        new Contract(address, PAIR_ABI, factory.provider) as Pair
+      ).metadata(),
+    }))
+  );
+
+  return pools.filter(
+    ({ metadata }) => !metadata.r0.isZero() && !metadata.r1.isZero()
+  );
+};
+
+// Both the stable and the volatile pool of two tokens are kept under the same edge, like {Router.getPairs}.
+const buildGraph = (pools: ReadonlyArray<Pool>): Graph => {
+  const graph: Graph = new Map();
+
+  const addEdge = (from: string, to: string, pool: Pool) => {
+    const edges = graph.get(toKey(from)) || [];
+    edges.push({ token: to, pool });
+    graph.set(toKey(from), edges);
+  };
+
+  for (const pool of pools) {
+    addEdge(pool.metadata.t0, pool.metadata.t1, pool);
+    addEdge(pool.metadata.t1, pool.metadata.t0, pool);
+  }
+
+  return graph;
+};
+
+// Swallows reverts the same way {Router._getBestAmount} ignores pairs that fail to quote.
+const safeGetAmountOut = (pool: Pool, tokenIn: string, amountIn: BigNumber) => {
+  try {
+    return getAmountOut(pool.metadata, tokenIn, amountIn);
+  } catch (error) {
+    return BigNumber.from(0);
+  }
+};
+
+// Price of `tokenIn` in the other token without fees and without slippage, scaled by 1e18.
+const getSpotPrice = (
+  { metadata: { t0, st, r0, r1, dec0, dec1 } }: Pool,
+  tokenIn: string
+) => {
+  const isToken0 = toKey(tokenIn) === toKey(t0);
+  const [reserveIn, reserveOut] = isToken0 ? [r0, r1] : [r1, r0];
+  const [decimalsIn, decimalsOut] = isToken0 ? [dec0, dec1] : [dec1, dec0];
+
+  if (!st) return reserveOut.mul(PRECISION).div(reserveIn);
+
+  // dy/dx of x3y+y3x = k is (3x2y + y3) / (x3 + 3xy2) with both reserves in 18 decimals
+  const x = reserveIn.mul(PRECISION).div(decimalsIn);
+  const y = reserveOut.mul(PRECISION).div(decimalsOut);
+
+  const numerator = x.mul(x).mul(y).mul(3).add(y.mul(y).mul(y));
+  const denominator = x.mul(x).mul(x).add(x.mul(y).mul(y).mul(3));
+
+  return numerator
+    .mul(decimalsOut)
+    .mul(PRECISION)
+    .div(denominator.mul(decimalsIn));
+};
+
+const getPriceImpact = (
+  { amounts }: Pick<BestRoute, "amounts">,
+  spotAmount: BigNumber
+) =>
+  spotAmount.isZero()
+    ? BigNumber.from(0)
+    : PRECISION.sub(
+        amounts[amounts.length - 1].amount.mul(PRECISION).div(spotAmount)
+      );
+
+/**
+ * @dev Finds the route with the highest output between `tokenIn` and `tokenOut` with up to `maxHops` swaps.
+ * Each hop uses the pool that quotes more between the stable and volatile pair, which is the same choice {Router.getAmountsOut} makes.
+ * The returned `routes` can be passed to {Router.swapExactTokensForTokens}. Their hops use {PoolType.Auto}, so the router picks the pool again when it executes.
+ *
+ * @param pools The result of {fetchPools}
+ * @param tokenIn The token being sold
+ * @param tokenOut The token being bought
+ * @param amountIn Number of `tokenIn` being sold
+ * @return BestRoute | undefined Undefined if the tokens are not connected
+ */
+export const findBestRoute = async (
+  pools: ReadonlyArray<Pool>,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: BigNumberish,
+  { maxHops = 3, router }: FindRouteOptions = {}
+): Promise<BestRoute | undefined> => {
+  const graph = buildGraph(pools);
+  const _amountIn = BigNumber.from(amountIn);
+
+  let best: Omit<BestRoute, "priceImpact"> | undefined;
+  let bestSpotAmount = BigNumber.from(0);
+
+  const search = (
+    token: string,
+    visited: Set<string>,
+    state: Omit<BestRoute, "priceImpact">,
+    spotAmount: BigNumber
+  ) => {
+    const amount = state.amounts[state.amounts.length - 1].amount;
+
+    if (toKey(token) === toKey(tokenOut)) {
+      if (
+        !amount.isZero() &&
+        (!best || amount.gt(best.amounts[best.amounts.length - 1].amount))
+      ) {
+        best = state;
+        bestSpotAmount = spotAmount;
+      }
+      return;
+    }
+
+    if (state.routes.length === maxHops || amount.isZero()) return;
+
+    // Group the pools by the next token to pick the best one per hop
+    const hops = new Map<string, Array<Pool>>();
+
+    for (const edge of graph.get(toKey(token)) || []) {
+      if (visited.has(toKey(edge.token))) continue;
+      hops.set(edge.token, [...(hops.get(edge.token) || []), edge.pool]);
+    }
+
+    for (const [next, candidates] of hops) {
+      let hopPool = candidates[0];
+      let hopAmount = BigNumber.from(0);
+
+      // The stable pool only wins if it quotes strictly more, like {Router._getBestAmount}
+      for (const pool of candidates) {
+        const quote = safeGetAmountOut(pool, token, amount);
+        if (quote.gt(hopAmount) || (quote.eq(hopAmount) && !pool.metadata.st)) {
+          hopPool = pool;
+          hopAmount = quote;
+        }
+      }
+
+      search(
+        next,
+        new Set([...visited, toKey(next)]),
+        {
+          routes: [
+            ...state.routes,
+            { from: token, to: next, poolType: PoolType.Auto },
+          ],
+          amounts: [
+            ...state.amounts,
+            { amount: hopAmount, stable: hopPool.metadata.st },
+          ],
+          pairs: [...state.pairs, hopPool.address],
+        },
+        spotAmount.mul(getSpotPrice(hopPool, token)).div(PRECISION)
+      );
+    }
+  };
+
+  search(
+    tokenIn,
+    new Set([toKey(tokenIn)]),
+    { routes: [], amounts: [{ amount: _amountIn, stable: false }], pairs: [] },
+    _amountIn
+  );
+
+  if (!best) return;
+
+  if (!router)
+    return {
+      routes: best.routes,
+      amounts: best.amounts,
+      pairs: best.pairs,
+      priceImpact: getPriceImpact(best, bestSpotAmount),
+    };
+
+  // The router may pick another pool if the reserves changed since {fetchPools}.
+  const amounts = (await router.getAmountsOut(_amountIn, best.routes)).map(
+    ({ amount, stable }) => ({ amount, stable })
+  );
+
+  const pairs = best.routes.map(({ from, to }, index) => {
+    const pool = pools.find(
+      ({ metadata: { t0, t1, st } }) =>
+        st === amounts[index + 1].stable &&
+        [toKey(t0), toKey(t1)].sort().join() ===
+          [toKey(from), toKey(to)].sort().join()
+    );
+
+    return pool ? pool.address : constants.AddressZero;
+  });
+
+  return {
+    routes: best.routes,
+    amounts,
+    pairs,
+    priceImpact: getPriceImpact({ amounts }, bestSpotAmount),
+  };
+};
@@ -1,4 +1,159 @@
-async function main() {}
+import { Contract } from "ethers";
+import { ethers, network } from "hardhat";
+
+import { Factory, Router } from "../typechain";
+
+import {
+  DeploymentManifest,
+  loadManifest,
+  saveManifest,
+  getManifestPath,
+} from "../lib/deployments";
+
+// Optional settings. If WNT_ADDRESS is not set, a fresh WNT will be deployed.
+const { WNT_ADDRESS, FEE_TO, GOVERNOR } = process.env;
+
+const { getAddress } = ethers.utils;
+
+const sameArgs = (a: Array<unknown>, b: Array<unknown>) =>
+  JSON.stringify(a).toLowerCase() === JSON.stringify(b).toLowerCase();
+
+/**
+ * @dev Returns the contract `name` from the manifest if it has code and was deployed with the same `args`.
+ * Otherwise it deploys it and saves the manifest right away, so an interrupted run can resume from this point.
+ */
+const deployOrReuse = async (
+  manifest: DeploymentManifest,
+  name: string,
+  args: Array<unknown> = []
+): Promise<Contract> => {
+  const contractFactory = await ethers.getContractFactory(name);
+  const record = manifest.contracts[name];
+
+  if (
+    record &&
+    sameArgs(record.constructorArgs, args) &&
+    (await ethers.provider.getCode(record.address)) !== "0x"
+  ) {
+    console.log(`${name} already deployed at ${record.address}, skipping`);
+    return contractFactory.attach(record.address);
+  }
+
+  const contract = await contractFactory.deploy(...args);
+  const receipt = await contract.deployTransaction.wait();
+
+  manifest.contracts[name] = {
+    address: contract.address,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    constructorArgs: args,
+  };
+  saveManifest(manifest);
+
+  console.log(`${name} deployed at ${contract.address}`);
+
+  return contract;
+};
+
+const getWNT = async (manifest: DeploymentManifest) => {
+  if (!WNT_ADDRESS) return (await deployOrReuse(manifest, "WNT")).address;
+
+  const wnt = getAddress(WNT_ADDRESS);
+
+  if ((await ethers.provider.getCode(wnt)) === "0x")
+    throw new Error(`WNT_ADDRESS ${wnt} has no code`);
+
+  manifest.contracts.WNT = { address: wnt, constructorArgs: [] };
+  saveManifest(manifest);
+
+  return wnt;
+};
+
+// The router caches the pair code hash in its constructor. A wrong hash would make {pairFor} return addresses without code.
+// Any two addresses work to predict a pair, so we use the WNT and the factory.
+const verifyRouter = async (router: Router, factory: Factory, wnt: string) => {
+  const [routerFactory, routerWNT, pairCodeHash, predictedPair] =
+    await Promise.all([
+      router.factory(),
+      router.WNT(),
+      factory.pairCodeHash(),
+      router.pairFor(wnt, factory.address, false),
+    ]);
+
+  if (routerFactory !== factory.address)
+    throw new Error(`Router points to the factory ${routerFactory}`);
+
+  if (routerWNT !== wnt)
+    throw new Error(`Router points to the WNT ${routerWNT}`);
+
+  const [token0, token1] =
+    wnt.toLowerCase() < factory.address.toLowerCase()
+      ? [wnt, factory.address]
+      : [factory.address, wnt];
+
+  const expectedPair = ethers.utils.getCreate2Address(
+    factory.address,
+    ethers.utils.solidityKeccak256(
+      ["address", "address", "bool"],
+      [token0, token1, false]
+    ),
+    pairCodeHash
+  );
+
+  if (predictedPair !== expectedPair)
+    throw new Error("Router did not pick up Factory.pairCodeHash()");
+};
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  const manifest = loadManifest(network.name, chainId);
+
+  console.log(
+    `Deploying to ${network.name} (${chainId}) with ${deployer.address}`
+  );
+
+  const wnt = await getWNT(manifest);
+
+  const factory = (await deployOrReuse(manifest, "Factory")) as Factory;
+
+  const router = (await deployOrReuse(manifest, "Router", [
+    factory.address,
+    wnt,
+  ])) as Router;
+
+  await verifyRouter(router, factory, wnt);
+
+  await deployOrReuse(manifest, "Zap", [factory.address, wnt]);
+
+  await deployOrReuse(manifest, "OracleAdapterFactory", [factory.address]);
+
+  await deployOrReuse(manifest, "LPOracle", [factory.address]);
+
+  await deployOrReuse(manifest, "Lens", [factory.address]);
+
+  const governor = await factory.governor();
+
+  if (FEE_TO && (await factory.feeTo()) !== getAddress(FEE_TO)) {
+    if (governor !== deployer.address)
+      throw new Error(`Only the governor ${governor} can set feeTo`);
+
+    await (await factory.setFeeTo(getAddress(FEE_TO))).wait();
+    console.log(`Factory feeTo set to ${FEE_TO}`);
+  }
+
+  // Must be the last step as the deployer loses the governor role.
+  if (GOVERNOR && governor !== getAddress(GOVERNOR)) {
+    if (governor !== deployer.address)
+      throw new Error(`Only the governor ${governor} can set a new governor`);
+
+    await (await factory.setGovernor(getAddress(GOVERNOR))).wait();
+    console.log(`Factory governor set to ${GOVERNOR}`);
+  }
+
+  console.log(`Manifest saved at ${getManifestPath(network.name)}`);
+}
 
 // We recommend this pattern to be able to use async/await everywhere
 // and properly handle errors.
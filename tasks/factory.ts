@@ -0,0 +1,102 @@
+import { utils } from "ethers";
+import { task } from "hardhat/config";
+
+import { execute, getFactory } from "./utils";
+
+task("pair:create", "Deploys a new pair")
+  .addParam("tokenA", "One of the tokens of the pair")
+  .addParam("tokenB", "The other token of the pair")
+  .addFlag("stable", "Uses the curve formula instead of the constant product")
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async ({ tokenA, tokenB, stable, dryRun }, hre) => {
+    const factory = await getFactory(hre);
+
+    await execute(factory, "createPair", [tokenA, tokenB, stable], dryRun);
+  });
+
+task(
+  "factory:set-fee-to",
+  "Updates the treasury that receives the protocol fee"
+)
+  .addParam("feeTo", "The new treasury. The zero address turns the fee off")
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async ({ feeTo, dryRun }, hre) => {
+    const factory = await getFactory(hre);
+
+    await execute(factory, "setFeeTo", [feeTo], dryRun);
+  });
+
+task(
+  "factory:set-protocol-fee",
+  "Updates the share of the swap fees that is minted to the treasury"
+)
+  .addParam("fee", "The new share in percent, e.g. 10 for 10%. 0 turns it off")
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async ({ fee, dryRun }, hre) => {
+    const factory = await getFactory(hre);
+
+    // 1e18 is 100%
+    await execute(
+      factory,
+      "setProtocolFee",
+      [utils.parseUnits(fee, 16)],
+      dryRun
+    );
+  });
+
+task("factory:set-governor", "Transfers the governor role of the factory")
+  .addParam("governor", "The new governor")
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async ({ governor, dryRun }, hre) => {
+    const factory = await getFactory(hre);
+
+    await execute(factory, "setGovernor", [governor], dryRun);
+  });
+
+task(
+  "factory:set-swap-fee",
+  "Updates the swap fee of every pair of a curve type, or of a single pair"
+)
+  .addOptionalParam("fee", "The new fee in percent, e.g. 0.3 for 0.3%")
+  .addOptionalParam("pair", "Only updates the fee of this pair")
+  .addFlag("stable", "Updates the fee of stable pairs instead of volatile ones")
+  .addFlag("remove", "Makes --pair use the fee of its curve type again")
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async ({ fee, pair, stable, remove, dryRun }, hre) => {
+    if (remove && !pair) throw new Error("--remove requires --pair");
+    if (!remove && fee === undefined) throw new Error("--fee is required");
+
+    const factory = await getFactory(hre);
+
+    if (remove) {
+      await execute(factory, "removePairSwapFee", [pair], dryRun);
+      return;
+    }
+
+    // 1e18 is 100%
+    const value = utils.parseUnits(fee, 16);
+
+    if (pair) await execute(factory, "setPairSwapFee", [pair, value], dryRun);
+    else await execute(factory, "setSwapFee", [stable, value], dryRun);
+  });
+
+task(
+  "factory:set-twap",
+  "Updates the TWAP window and granularity of new pairs, or of a single pair"
+)
+  .addParam("window", "The TWAP window in seconds, e.g. 3600 for 1 hour")
+  .addParam("granularity", "The number of observations in the window")
+  .addOptionalParam("pair", "Only updates the settings of this pair")
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async ({ window, granularity, pair, dryRun }, hre) => {
+    const factory = await getFactory(hre);
+
+    if (pair)
+      await execute(
+        factory,
+        "setPairTwap",
+        [pair, window, granularity],
+        dryRun
+      );
+    else await execute(factory, "setTwap", [window, granularity], dryRun);
+  });
@@ -0,0 +1,27 @@
+import path from "path";
+
+import { task, types } from "hardhat/config";
+import { TASK_TEST } from "hardhat/builtin-tasks/task-names";
+
+task("gas:benchmark", "Measures the gas of the main paths against a snapshot")
+  .addOptionalParam(
+    "tolerance",
+    "Allowed regression in percent before the benchmark fails",
+    1,
+    types.float
+  )
+  .addFlag("update", "Writes the measured gas to the snapshot")
+  .setAction(async ({ tolerance, update }, hre) => {
+    // Read by benchmark/gas.ts, as mocha files do not take arguments
+    process.env.GAS_TOLERANCE = String(tolerance);
+    process.env.UPDATE_GAS_SNAPSHOT = String(update);
+
+    // Prints the per method table of hardhat-gas-reporter next to the benchmarks. The plugin only types the user config.
+    (
+      hre.config as typeof hre.config & { gasReporter: { enabled: boolean } }
+    ).gasReporter.enabled = true;
+
+    await hre.run(TASK_TEST, {
+      testFiles: [path.join(__dirname, "..", "benchmark", "gas.ts")],
+    });
+  });
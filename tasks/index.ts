@@ -0,0 +1,7 @@
+import "./factory";
+import "./gas";
+import "./indexer";
+import "./keeper";
+import "./liquidity";
+import "./pair";
+import "./swap";
@@ -0,0 +1,63 @@
+import { task, types } from "hardhat/config";
+
+import { loadManifest } from "../lib/deployments";
+import { getIndexerPath, loadState, saveState, sync } from "../lib/indexer";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+task(
+  "indexer:run",
+  "Indexes the events of the factory and its pairs into indexer/<network>.json"
+)
+  .addOptionalParam(
+    "confirmations",
+    "Blocks re-processed on every sync to follow reorgs",
+    12,
+    types.int
+  )
+  .addOptionalParam(
+    "batchSize",
+    "Maximum number of blocks per eth_getLogs request",
+    2_000,
+    types.int
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to index. Defaults to the block that deployed the factory",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "poll",
+    "Milliseconds between syncs. It syncs once and exits if 0",
+    0,
+    types.int
+  )
+  .setAction(async (args, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const record = loadManifest(hre.network.name, chainId).contracts.Factory;
+
+    if (!record)
+      throw new Error(`Factory is not deployed on ${hre.network.name}`);
+
+    const file = getIndexerPath(hre.network.name);
+    const state = loadState(
+      file,
+      chainId,
+      record.address,
+      args.fromBlock ?? record.blockNumber ?? 0
+    );
+
+    for (;;) {
+      const result = await sync(hre.ethers.provider, state, args);
+      saveState(file, state);
+
+      console.log(
+        `Indexed blocks ${result.fromBlock} to ${result.toBlock}: ${result.added} events added, ${result.removed} re-processed, ${state.pairs.length} pairs, ${state.events.length} events in total`
+      );
+
+      if (!args.poll) return;
+
+      await sleep(args.poll);
+    }
+  });
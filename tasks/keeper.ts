@@ -0,0 +1,80 @@
+import { utils } from "ethers";
+import { task, types } from "hardhat/config";
+
+import { getSecondsUntilNextSync, keep } from "../lib/keeper";
+
+import { getFactory } from "./utils";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+task(
+  "keeper:run",
+  "Syncs the pairs just before their TWAP observations go stale"
+)
+  .addOptionalParam(
+    "pairs",
+    "Comma separated pairs to keep. Defaults to every pair of the factory",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "margin",
+    "Seconds before the deadline of a pair at which it is synced",
+    60,
+    types.int
+  )
+  .addOptionalParam(
+    "maxGasPrice",
+    "Maximum gas price in gwei. Syncs are skipped while it is higher",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "poll",
+    "Maximum seconds between passes. It runs once and exits if 0",
+    0,
+    types.int
+  )
+  .addFlag("dryRun", "Logs the syncs that are due without sending them")
+  .setAction(async (args, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+
+    let pairs: Array<string>;
+
+    if (args.pairs) {
+      pairs = args.pairs
+        .split(",")
+        .map((pair: string) => utils.getAddress(pair.trim()));
+    } else {
+      const factory = await getFactory(hre);
+      const length = (await factory.allPairsLength()).toNumber();
+
+      pairs = await Promise.all(
+        Array.from({ length }, (_, index) => factory.allPairs(index))
+      );
+    }
+
+    const options = {
+      margin: args.margin,
+      maxGasPrice: args.maxGasPrice
+        ? utils.parseUnits(args.maxGasPrice, "gwei")
+        : undefined,
+      dryRun: args.dryRun,
+    };
+
+    for (;;) {
+      const results = await keep(signer, pairs, options);
+
+      if (!args.poll) return;
+
+      const { timestamp: now } = await hre.ethers.provider.getBlock("latest");
+
+      // Wakes up for the next deadline, and at least every `poll` seconds to pick up trades and gas prices
+      await sleep(
+        Math.max(
+          Math.min(args.poll, getSecondsUntilNextSync(results, now)),
+          1
+        ) * 1_000
+      );
+    }
+  });
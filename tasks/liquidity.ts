@@ -0,0 +1,139 @@
+import { task, types } from "hardhat/config";
+
+import {
+  applySlippage,
+  ensureAllowance,
+  execute,
+  getDeadline,
+  getPair,
+  getRouter,
+  getToken,
+  parseAmount,
+} from "./utils";
+
+task("liquidity:add", "Adds liquidity to a pair through the router")
+  .addParam("tokenA", "One of the tokens of the pair")
+  .addParam("tokenB", "The other token of the pair")
+  .addParam("amountA", "Desired amount of tokenA in token units, e.g. 1.5")
+  .addParam("amountB", "Desired amount of tokenB in token units, e.g. 1.5")
+  .addFlag("stable", "Uses the stable pair")
+  .addOptionalParam("to", "Receiver of the LP tokens. Defaults to the signer")
+  .addOptionalParam("slippage", "Slippage in basis points", 50, types.int)
+  .addOptionalParam(
+    "deadline",
+    "Seconds until the transaction expires",
+    1200,
+    types.int
+  )
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async (args, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const router = await getRouter(hre);
+    const [tokenA, tokenB] = await Promise.all([
+      getToken(hre, args.tokenA),
+      getToken(hre, args.tokenB),
+    ]);
+
+    const [amountADesired, amountBDesired] = await Promise.all([
+      parseAmount(tokenA, args.amountA),
+      parseAmount(tokenB, args.amountB),
+    ]);
+
+    const [amountA, amountB, liquidity] = await router.quoteAddLiquidity(
+      tokenA.address,
+      tokenB.address,
+      args.stable,
+      amountADesired,
+      amountBDesired
+    );
+
+    console.log(
+      `Expected ${amountA} tokenA, ${amountB} tokenB and ${liquidity} LP`
+    );
+
+    await ensureAllowance(tokenA, router.address, amountADesired, args.dryRun);
+    await ensureAllowance(tokenB, router.address, amountBDesired, args.dryRun);
+
+    const pair = await getPair(
+      hre,
+      await router.pairFor(tokenA.address, tokenB.address, args.stable)
+    );
+
+    await execute(
+      router,
+      "addLiquidity",
+      [
+        tokenA.address,
+        tokenB.address,
+        args.stable,
+        amountADesired,
+        amountBDesired,
+        applySlippage(amountA, args.slippage),
+        applySlippage(amountB, args.slippage),
+        args.to || signer.address,
+        await getDeadline(hre, args.deadline),
+      ],
+      args.dryRun,
+      [pair]
+    );
+  });
+
+task("liquidity:remove", "Removes liquidity from a pair through the router")
+  .addParam("tokenA", "One of the tokens of the pair")
+  .addParam("tokenB", "The other token of the pair")
+  .addParam("liquidity", "Amount of LP tokens, e.g. 1.5")
+  .addFlag("stable", "Uses the stable pair")
+  .addOptionalParam("to", "Receiver of the tokens. Defaults to the signer")
+  .addOptionalParam("slippage", "Slippage in basis points", 50, types.int)
+  .addOptionalParam(
+    "deadline",
+    "Seconds until the transaction expires",
+    1200,
+    types.int
+  )
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async (args, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const router = await getRouter(hre);
+
+    const pair = await getPair(
+      hre,
+      await router.pairFor(args.tokenA, args.tokenB, args.stable)
+    );
+
+    // Pairs are ERC20s with 18 decimals
+    const liquidity = hre.ethers.utils.parseEther(args.liquidity);
+
+    const [amountA, amountB] = await router.quoteRemoveLiquidity(
+      args.tokenA,
+      args.tokenB,
+      args.stable,
+      liquidity
+    );
+
+    console.log(`Expected ${amountA} tokenA and ${amountB} tokenB`);
+
+    await ensureAllowance(
+      await getToken(hre, pair.address),
+      router.address,
+      liquidity,
+      args.dryRun
+    );
+
+    await execute(
+      router,
+      "removeLiquidity",
+      [
+        args.tokenA,
+        args.tokenB,
+        args.stable,
+        liquidity,
+        applySlippage(amountA, args.slippage),
+        applySlippage(amountB, args.slippage),
+        args.to || signer.address,
+        await getDeadline(hre, args.deadline),
+      ],
+      args.dryRun,
+      [pair]
+    );
+  });
@@ -0,0 +1,228 @@
+import { BigNumber } from "ethers";
+import { task } from "hardhat/config";
+
+import { decodeError } from "../lib/errors";
+import { computeAmountOut } from "../lib/quote";
+
+import { getPair } from "./utils";
+
+task("pair:inspect", "Prints the state and the oracle health of a pair")
+  .addPositionalParam("address", "The pair to inspect")
+  .addFlag("json", "Prints the result as JSON")
+  .setAction(async ({ address, json }, hre) => {
+    const pair = await getPair(hre, address);
+    const { timestamp: now } = await hre.ethers.provider.getBlock("latest");
+
+    const [
+      name,
+      symbol,
+      totalSupply,
+      metadata,
+      blockTimestampLast,
+      kLast,
+      reserve0CumulativeLast,
+      reserve1CumulativeLast,
+      price0CumulativeLast,
+      price1CumulativeLast,
+      currentCumulativeReserves,
+      observationLength,
+      lastIndex,
+      cardinality,
+      firstObservation,
+      twapWindow,
+    ] = await Promise.all([
+      pair.name(),
+      pair.symbol(),
+      pair.totalSupply(),
+      pair.metadata(),
+      pair.blockTimestampLast(),
+      pair.kLast(),
+      pair.reserve0CumulativeLast(),
+      pair.reserve1CumulativeLast(),
+      pair.price0CumulativeLast(),
+      pair.price1CumulativeLast(),
+      pair.currentCumulativeReserves(),
+      pair.observationLength(),
+      pair.observationIndex(),
+      pair.observationCardinality(),
+      pair.getFirstObservationInWindow(),
+      pair.twapWindow(),
+    ]);
+
+    const observations = await Promise.all(
+      Array.from({ length: observationLength.toNumber() }, (_, index) =>
+        pair.observations(index)
+      )
+    );
+
+    // The first observation is empty if the pair has not traded in the window
+    const firstIndex = firstObservation.timestamp.isZero()
+      ? null
+      : observations.findIndex(({ timestamp }) =>
+          timestamp.eq(firstObservation.timestamp)
+        );
+    const firstObservationAge =
+      firstIndex === null ? null : now - firstObservation.timestamp.toNumber();
+
+    // Price of one unit of token0 in token1 without fees
+    let twap: BigNumber | null = null;
+    // Same, with the average price instead of the average reserves
+    let twapPrice: BigNumber | null = null;
+    let stale = false;
+
+    try {
+      [twap, twapPrice] = await Promise.all([
+        pair.getTokenPrice(metadata.t0, metadata.dec0),
+        pair.getTwapPrice(metadata.t0, metadata.dec0),
+      ]);
+    } catch (error) {
+      if (decodeError(error)?.name !== "Pair__MissingObservation") throw error;
+      stale = true;
+    }
+
+    const spot = metadata.r0.isZero()
+      ? BigNumber.from(0)
+      : computeAmountOut(metadata.dec0, metadata.t0, metadata);
+
+    // In basis points
+    const deviation =
+      twap && !spot.isZero()
+        ? twap.sub(spot).mul(10_000).div(spot).toNumber()
+        : null;
+
+    const result = {
+      address: pair.address,
+      name,
+      symbol,
+      token0: metadata.t0,
+      token1: metadata.t1,
+      stable: metadata.st,
+      fee: metadata.fee.toString(),
+      // The pair stores one unit of each token, e.g. 1e18
+      decimals0: metadata.dec0.toString().length - 1,
+      decimals1: metadata.dec1.toString().length - 1,
+      totalSupply: totalSupply.toString(),
+      reserve0: metadata.r0.toString(),
+      reserve1: metadata.r1.toString(),
+      blockTimestampLast: blockTimestampLast.toNumber(),
+      kLast: kLast.toString(),
+      reserve0CumulativeLast: reserve0CumulativeLast.toString(),
+      reserve1CumulativeLast: reserve1CumulativeLast.toString(),
+      price0CumulativeLast: price0CumulativeLast.toString(),
+      price1CumulativeLast: price1CumulativeLast.toString(),
+      reserve0Cumulative:
+        currentCumulativeReserves.reserve0Cumulative.toString(),
+      reserve1Cumulative:
+        currentCumulativeReserves.reserve1Cumulative.toString(),
+      observations: observations.map(
+        (
+          [
+            timestamp,
+            reserve0Cumulative,
+            reserve1Cumulative,
+            price0Cumulative,
+            price1Cumulative,
+          ],
+          index
+        ) => ({
+          index,
+          timestamp: timestamp.toNumber(),
+          // Observations paid for with {increaseObservationCardinalityNext} have a timestamp of 1 until they are recorded
+          age: timestamp.lte(1) ? null : now - timestamp.toNumber(),
+          reserve0Cumulative: reserve0Cumulative.toString(),
+          reserve1Cumulative: reserve1Cumulative.toString(),
+          price0Cumulative: price0Cumulative.toString(),
+          price1Cumulative: price1Cumulative.toString(),
+        })
+      ),
+      oracle: {
+        timestamp: now,
+        window: twapWindow.toNumber(),
+        lastIndex,
+        cardinality,
+        firstIndex,
+        firstObservationAge,
+        stale,
+        twap: twap && twap.toString(),
+        twapPrice: twapPrice && twapPrice.toString(),
+        spot: spot.toString(),
+        deviation,
+      },
+    };
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const row = (label: string, value: unknown) =>
+      console.log(`  ${label.padEnd(20)}${value}`);
+
+    console.log(`${name} (${symbol}) @ ${pair.address}`);
+    row("token0", `${result.token0} (decimals ${result.decimals0})`);
+    row("token1", `${result.token1} (decimals ${result.decimals1})`);
+    row("stable", result.stable);
+    row("fee", `${hre.ethers.utils.formatEther(metadata.fee.mul(100))}%`);
+    row("totalSupply", result.totalSupply);
+    row("reserves", `${result.reserve0} / ${result.reserve1}`);
+    row(
+      "blockTimestampLast",
+      `${result.blockTimestampLast} (${now - result.blockTimestampLast}s ago)`
+    );
+    row("kLast", result.kLast);
+    row(
+      "cumulativeLast",
+      `${result.reserve0CumulativeLast} / ${result.reserve1CumulativeLast}`
+    );
+    row(
+      "priceCumulativeLast",
+      `${result.price0CumulativeLast} / ${result.price1CumulativeLast}`
+    );
+    row(
+      "cumulativeNow",
+      `${result.reserve0Cumulative} / ${result.reserve1Cumulative}`
+    );
+
+    console.log("Observations");
+
+    for (const observation of result.observations) {
+      const marker =
+        observation.index === result.oracle.lastIndex
+          ? " <- last"
+          : observation.index === firstIndex
+          ? " <- first in window"
+          : "";
+
+      row(
+        `[${observation.index}]`,
+        `timestamp ${observation.timestamp} age ${
+          observation.age === null ? "-" : `${observation.age}s`
+        } cumulative ${observation.reserve0Cumulative} / ${
+          observation.reserve1Cumulative
+        }${marker}`
+      );
+    }
+
+    console.log("Oracle");
+    row("now", `${now}`);
+    row(
+      "ring buffer",
+      `last observation in slot ${lastIndex}, ${cardinality} of ${observations.length} slots in use`
+    );
+    row(
+      "first observation",
+      firstIndex === null
+        ? `none in the window of ${result.oracle.window}s`
+        : `slot ${firstIndex}, ${firstObservationAge}s old (window ${result.oracle.window}s)`
+    );
+    row(
+      "status",
+      stale
+        ? "STALE, getTokenPrice and getTwapPrice revert with Pair__MissingObservation"
+        : "healthy"
+    );
+    row("spot", `${result.oracle.spot} token1 per token0`);
+    row("twap", `${result.oracle.twap || "-"} token1 per token0`);
+    row("twap price", `${result.oracle.twapPrice || "-"} token1 per token0`);
+    row("deviation", deviation === null ? "-" : `${deviation / 100}%`);
+  });
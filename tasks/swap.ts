@@ -0,0 +1,152 @@
+import { task, types } from "hardhat/config";
+
+import { fetchPools, findBestRoute, PoolType, Route } from "../lib/routes";
+
+import {
+  applySlippage,
+  ensureAllowance,
+  execute,
+  getDeadline,
+  getFactory,
+  getPair,
+  getRouter,
+  getToken,
+  parseAmount,
+} from "./utils";
+
+const POOL_TYPES: Record<string, Route["poolType"]> = {
+  auto: PoolType.Auto,
+  stable: PoolType.Stable,
+  volatile: PoolType.Volatile,
+};
+
+const parsePoolType = (pool: string) => {
+  const poolType = POOL_TYPES[pool.trim().toLowerCase()];
+
+  if (poolType === undefined)
+    throw new Error(`Unknown pool ${pool}. Use auto, stable or volatile`);
+
+  return poolType;
+};
+
+task("swap", "Swaps an exact amount of tokens through the router")
+  .addParam("tokenIn", "The token being sold")
+  .addParam("tokenOut", "The token being bought")
+  .addParam("amountIn", "Amount of tokenIn in token units, e.g. 1.5")
+  .addOptionalParam(
+    "route",
+    "Comma separated list of tokens from tokenIn to tokenOut. The best route is used if omitted"
+  )
+  .addOptionalParam(
+    "pools",
+    "Comma separated list with the pool of each hop of --route: auto, stable or volatile. Defaults to auto"
+  )
+  .addOptionalParam(
+    "maxHops",
+    "Maximum hops when searching for a route",
+    3,
+    types.int
+  )
+  .addOptionalParam("to", "Receiver of tokenOut. Defaults to the signer")
+  .addOptionalParam("slippage", "Slippage in basis points", 50, types.int)
+  .addOptionalParam(
+    "deadline",
+    "Seconds until the transaction expires",
+    1200,
+    types.int
+  )
+  .addFlag("dryRun", "Simulates the transaction with callStatic")
+  .setAction(async (args, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const [router, factory, tokenIn] = await Promise.all([
+      getRouter(hre),
+      getFactory(hre),
+      getToken(hre, args.tokenIn),
+    ]);
+
+    const amountIn = await parseAmount(tokenIn, args.amountIn);
+
+    let routes: Array<Route>;
+
+    if (args.route) {
+      const path: Array<string> = args.route.split(",");
+
+      if (
+        path.length < 2 ||
+        path[0].toLowerCase() !== args.tokenIn.toLowerCase() ||
+        path[path.length - 1].toLowerCase() !== args.tokenOut.toLowerCase()
+      )
+        throw new Error("The route must go from tokenIn to tokenOut");
+
+      const pools: Array<string> = args.pools
+        ? args.pools.split(",")
+        : path.slice(1).map(() => "auto");
+
+      if (pools.length !== path.length - 1)
+        throw new Error("--pools must have one pool per hop of the route");
+
+      routes = path.slice(1).map((to, index) => ({
+        from: path[index],
+        to,
+        poolType: parsePoolType(pools[index]),
+      }));
+    } else {
+      if (args.pools) throw new Error("--pools requires --route");
+
+      const best = await findBestRoute(
+        await fetchPools(factory),
+        args.tokenIn,
+        args.tokenOut,
+        amountIn,
+        { maxHops: args.maxHops }
+      );
+
+      if (!best) throw new Error("No route found");
+
+      routes = best.routes;
+      console.log(
+        `Price impact ${hre.ethers.utils.formatEther(
+          best.priceImpact.mul(100)
+        )}%`
+      );
+    }
+
+    const amounts = await router.getAmountsOut(amountIn, routes);
+    const amountOut = amounts[amounts.length - 1].amount;
+
+    console.log(
+      `Route ${routes
+        .map(
+          ({ from, to }, index) =>
+            `${from} -> ${to} (${
+              amounts[index + 1].stable ? "stable" : "volatile"
+            })`
+        )
+        .join(", ")}`
+    );
+    console.log(`Expected ${amountOut} tokenOut`);
+
+    await ensureAllowance(tokenIn, router.address, amountIn, args.dryRun);
+
+    const pairs = await Promise.all(
+      routes.map(({ from, to }, index) =>
+        router
+          .pairFor(from, to, amounts[index + 1].stable)
+          .then((address) => getPair(hre, address))
+      )
+    );
+
+    await execute(
+      router,
+      "swapExactTokensForTokens",
+      [
+        amountIn,
+        applySlippage(amountOut, args.slippage),
+        routes,
+        args.to || signer.address,
+        await getDeadline(hre, args.deadline),
+      ],
+      args.dryRun,
+      pairs
+    );
+  });
@@ -0,0 +1,153 @@
+import { BigNumber, Contract, ContractReceipt, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { ERC20, Factory, Pair, Router } from "../typechain";
+
+import { getDeployedAddress } from "../lib/deployments";
+import { decodeError, formatError } from "../lib/errors";
+
+// Contracts are loaded with {getContractAt}, so the tasks only import types from typechain and can be registered before compiling.
+export const getFactory = (hre: HardhatRuntimeEnvironment) =>
+  hre.ethers.getContractAt(
+    "Factory",
+    getDeployedAddress(hre.network.name, "Factory")
+  ) as Promise<Factory>;
+
+export const getRouter = (hre: HardhatRuntimeEnvironment) =>
+  hre.ethers.getContractAt(
+    "Router",
+    getDeployedAddress(hre.network.name, "Router")
+  ) as Promise<Router>;
+
+export const getPair = (hre: HardhatRuntimeEnvironment, address: string) =>
+  hre.ethers.getContractAt("Pair", address) as Promise<Pair>;
+
+export const getToken = (hre: HardhatRuntimeEnvironment, address: string) =>
+  hre.ethers.getContractAt("ERC20", address) as Promise<ERC20>;
+
+export const getDeadline = async (
+  hre: HardhatRuntimeEnvironment,
+  seconds: number
+) => (await hre.ethers.provider.getBlock("latest")).timestamp + seconds;
+
+// `slippage` is in basis points. 50 is 0.5%.
+export const applySlippage = (amount: BigNumber, slippage: number) =>
+  amount.mul(10_000 - slippage).div(10_000);
+
+export const parseAmount = async (token: ERC20, amount: string) =>
+  utils.parseUnits(amount, await token.decimals());
+
+/**
+ * @dev Approves `spender` to spend `amount` of `token` if the current allowance is not enough. It only logs in a dry run.
+ */
+export const ensureAllowance = async (
+  token: ERC20,
+  spender: string,
+  amount: BigNumber,
+  dryRun: boolean
+) => {
+  const owner = await token.signer.getAddress();
+
+  if ((await token.allowance(owner, spender)).gte(amount)) return;
+
+  if (dryRun) {
+    console.log(`[dry-run] would approve ${amount} of ${token.address}`);
+    return;
+  }
+
+  await (await token.approve(spender, amount)).wait();
+  console.log(`Approved ${amount} of ${token.address} to ${spender}`);
+};
+
+const formatValue = (value: unknown): string => {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  return String(value);
+};
+
+// Prints the named values of an ethers {Result}.
+const formatResult = (result: utils.Result) =>
+  Object.keys(result)
+    .filter((key) => isNaN(Number(key)))
+    .map((key) => `${key}=${formatValue(result[key])}`)
+    .join(" ");
+
+/**
+ * @dev Prints every log of `receipt` emitted by one of `contracts`.
+ */
+export const printEvents = (
+  receipt: ContractReceipt,
+  contracts: ReadonlyArray<Contract>
+) => {
+  for (const log of receipt.logs) {
+    const contract = contracts.find(
+      ({ address }) => address.toLowerCase() === log.address.toLowerCase()
+    );
+
+    if (!contract) continue;
+
+    const event = contract.interface.parseLog(log);
+    console.log(`  ${event.name} @ ${log.address} ${formatResult(event.args)}`);
+  }
+};
+
+// Ethers sets `reason` to the message of a revert string.
+const getReason = (error: unknown) => {
+  const { reason } = (error || {}) as { reason?: unknown };
+
+  return typeof reason === "string" ? reason : undefined;
+};
+
+// Replaces the revert data of a custom error with its explanation.
+const describeError = (error: unknown) => {
+  const decoded = decodeError(error);
+
+  if (decoded) return formatError(decoded);
+
+  return (
+    getReason(error) || (error instanceof Error ? error.message : String(error))
+  );
+};
+
+/**
+ * @dev Sends `method` on `contract` and prints the decoded events of `events`. In a dry run, it runs the call with {callStatic} and prints the return value instead.
+ * Note that a dry run does not send the approvals, so it reverts if the allowance is not enough.
+ */
+export const execute = async (
+  contract: Contract,
+  method: string,
+  args: ReadonlyArray<unknown>,
+  dryRun: boolean,
+  events: ReadonlyArray<Contract> = [contract]
+) => {
+  if (dryRun) {
+    try {
+      const result = await contract.callStatic[method](...args);
+      console.log(
+        `[dry-run] ${method} returns ${
+          Array.isArray(result) ? formatResult(result) : formatValue(result)
+        }`
+      );
+    } catch (error) {
+      console.log(`[dry-run] ${method} reverts with ${describeError(error)}`);
+    }
+    return;
+  }
+
+  let tx;
+
+  try {
+    tx = await contract[method](...args);
+  } catch (error) {
+    throw new Error(`${method} reverts with ${describeError(error)}`);
+  }
+
+  console.log(`${method} sent in ${tx.hash}`);
+
+  const receipt: ContractReceipt = await tx.wait();
+  console.log(
+    `Mined in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`
+  );
+
+  printEvents(receipt, events);
+};
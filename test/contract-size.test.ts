@@ -0,0 +1,33 @@
+import { expect } from "chai";
+import { artifacts } from "hardhat";
+
+// EIP-170
+const MAX_CONTRACT_SIZE = 24_576;
+
+const getSize = (bytecode: string) => (bytecode.length - 2) / 2;
+
+describe("Contract sizes", () => {
+  it("keeps every contract under the contract size limit", async () => {
+    const names = (await artifacts.getAllFullyQualifiedNames()).filter((name) =>
+      name.startsWith("contracts/")
+    );
+
+    const oversized = [];
+
+    for (const name of names) {
+      const { deployedBytecode } = await artifacts.readArtifact(name);
+
+      if (getSize(deployedBytecode) > MAX_CONTRACT_SIZE)
+        oversized.push(`${name}: ${getSize(deployedBytecode)} bytes`);
+    }
+
+    expect(oversized).to.be.deep.equal([]);
+  });
+
+  it("fits the creation code of the pair in the contract the factory stores it in", async () => {
+    const { bytecode } = await artifacts.readArtifact("Pair");
+
+    // The stored code starts with a STOP
+    expect(getSize(bytecode) + 1).to.be.lte(MAX_CONTRACT_SIZE);
+  });
+});
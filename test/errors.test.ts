@@ -0,0 +1,156 @@
+import fs from "fs";
+import path from "path";
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Factory, Router, ERC20, WNT } from "../typechain";
+
+import { decodeError, ERRORS, formatError } from "../lib/errors";
+import { PoolType } from "../lib/routes";
+
+import { catchError, multiDeploy } from "./utils";
+
+const { parseEther } = ethers.utils;
+
+const ERROR_FILES = [
+  ...fs
+    .readdirSync(path.join(__dirname, "..", "contracts", "errors"))
+    .map((file) => path.join(__dirname, "..", "contracts", "errors", file)),
+  require.resolve("@interest-protocol/library/SafeTransferErrors.sol"),
+];
+
+const encodeError = (
+  signature: string,
+  types: Array<string> = [],
+  args: Array<unknown> = []
+) =>
+  ethers.utils.hexConcat([
+    ethers.utils.id(signature).slice(0, 10),
+    ethers.utils.defaultAbiCoder.encode(types, args),
+  ]);
+
+describe("Errors", () => {
+  let factory: Factory;
+  let router: Router;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+
+  let alice: SignerWithAddress;
+
+  beforeEach(async () => {
+    let wnt: WNT;
+
+    [[, alice], [factory, tokenA, tokenB, wnt]] = await Promise.all([
+      ethers.getSigners(),
+      multiDeploy(
+        ["Factory", "ERC20", "ERC20", "WNT"],
+        [[], ["TokenA", "TA"], ["TokenB", "TB"]]
+      ),
+    ]);
+
+    [router] = await multiDeploy(["Router"], [[factory.address, wnt.address]]);
+  });
+
+  it("describes every custom error of the contracts", () => {
+    const declared: Array<string> = [];
+
+    for (const file of ERROR_FILES) {
+      const regex = /error (\w+)\(\)/g;
+      const source = fs.readFileSync(file, "utf8");
+      let match;
+
+      while ((match = regex.exec(source))) declared.push(match[1]);
+    }
+
+    expect(declared.length).to.be.greaterThan(0);
+    expect(Object.keys(ERRORS).sort()).to.be.deep.equal(declared.sort());
+  });
+
+  it("decodes revert data", () => {
+    const data = encodeError("Pair__K()");
+
+    expect(decodeError(data)).to.be.deep.equal({
+      name: "Pair__K",
+      source: "Pair",
+      signature: "Pair__K()",
+      selector: data,
+      args: [],
+      explanation: ERRORS.Pair__K.explanation,
+      remedy: ERRORS.Pair__K.remedy,
+    });
+
+    expect(
+      decodeError(encodeError("TransferFromFailed()"))!.source
+    ).to.be.equal("SafeTransferLib");
+
+    const panic = decodeError(
+      encodeError("Panic(uint256)", ["uint256"], [0x11])
+    )!;
+
+    expect(panic.name).to.be.equal("Panic");
+    expect(panic.explanation).to.be.equal(
+      "An arithmetic operation overflowed or underflowed"
+    );
+
+    expect(
+      decodeError(
+        encodeError("Error(string)", ["string"], ["ERC20: no balance"])
+      )!.explanation
+    ).to.be.equal("ERC20: no balance");
+
+    expect(decodeError("0x")!.name).to.be.equal("EmptyRevert");
+    expect(decodeError("0x12345678")!.name).to.be.equal("Unknown");
+    expect(decodeError(new Error("network error"))).to.be.equal(undefined);
+  });
+
+  it("decodes the errors thrown by ethers", async () => {
+    await factory.createPair(tokenA.address, tokenB.address, false);
+
+    const alreadyDeployed = await catchError(
+      factory.createPair(tokenA.address, tokenB.address, false)
+    );
+
+    expect(alreadyDeployed!.name).to.be.equal("Factory__AlreadyDeployed");
+    expect(formatError(alreadyDeployed!)).to.be.equal(
+      `Factory__AlreadyDeployed: ${ERRORS.Factory__AlreadyDeployed.explanation}. ${ERRORS.Factory__AlreadyDeployed.remedy}.`
+    );
+
+    const expired = await catchError(
+      router.connect(alice).callStatic.swapExactTokensForTokens(
+        parseEther("1"),
+        0,
+        [
+          {
+            from: tokenA.address,
+            to: tokenB.address,
+            poolType: PoolType.Auto,
+          },
+        ],
+        alice.address,
+        0
+      )
+    );
+
+    expect(expired!.name).to.be.equal("Router__Expired");
+
+    const pair = await ethers.getContractAt(
+      "Pair",
+      await factory.getPair(tokenA.address, tokenB.address, false)
+    );
+
+    expect(
+      (await catchError(pair.swap(0, 0, alice.address, [])))!.name
+    ).to.be.equal("Pair__NoZeroTrades");
+
+    expect(await catchError(factory.allPairsLength())).to.be.equal(undefined);
+
+    const unauthorized = await catchError(
+      factory.connect(alice).setFeeTo(alice.address)
+    );
+
+    expect(unauthorized!.name).to.be.equal("Factory__Unauthorized");
+  });
+});
@@ -6,6 +6,8 @@ import { Factory, ERC20 } from "../typechain";
 
 import { multiDeploy } from "./utils";
 
+const { parseEther } = ethers.utils;
+
 describe("Factory", () => {
   let factory: Factory;
 
@@ -90,6 +92,247 @@ describe("Factory", () => {
     });
   });
 
+  describe("function: setProtocolFee", () => {
+    it("reverts if it is not called by the governor or the fee is too high", async () => {
+      await Promise.all([
+        expect(
+          factory.connect(alice).setProtocolFee(parseEther("0.1"))
+        ).to.be.revertedWith("Factory__Unauthorized()"),
+        expect(
+          factory.connect(owner).setProtocolFee(parseEther("0.51"))
+        ).to.be.revertedWith("Factory__FeeTooHigh()"),
+      ]);
+    });
+    it("sets the share of the swap fees minted to the treasury", async () => {
+      // 1/6
+      expect(await factory.protocolFee()).to.be.equal(parseEther("1").div(6));
+
+      await expect(factory.connect(owner).setProtocolFee(parseEther("0.25")))
+        .to.emit(factory, "NewProtocolFee")
+        .withArgs(parseEther("1").div(6), parseEther("0.25"));
+
+      expect(await factory.protocolFee()).to.be.equal(parseEther("0.25"));
+
+      await expect(factory.connect(owner).setProtocolFee(0))
+        .to.emit(factory, "NewProtocolFee")
+        .withArgs(parseEther("0.25"), 0);
+
+      expect(await factory.protocolFee()).to.be.equal(0);
+    });
+  });
+
+  describe("function: setSwapFee", () => {
+    it("reverts if it is not called by the governor or the fee is too high", async () => {
+      await Promise.all([
+        expect(
+          factory.connect(alice).setSwapFee(true, parseEther("0.001"))
+        ).to.be.revertedWith("Factory__Unauthorized()"),
+        expect(
+          factory.connect(owner).setSwapFee(false, parseEther("0.0101"))
+        ).to.be.revertedWith("Factory__FeeTooHigh()"),
+      ]);
+    });
+    it("sets the swap fee of every pair of a curve type", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, true);
+      await factory.createPair(tokenA.address, tokenB.address, false);
+
+      const stablePair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, true)
+      );
+      const volatilePair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, false)
+      );
+
+      expect(await factory.stableSwapFee()).to.be.equal(parseEther("0.0005"));
+      expect(await factory.volatileSwapFee()).to.be.equal(parseEther("0.003"));
+      expect(await stablePair.swapFee()).to.be.equal(parseEther("0.0005"));
+      expect(await volatilePair.swapFee()).to.be.equal(parseEther("0.003"));
+
+      await expect(factory.connect(owner).setSwapFee(true, parseEther("0.001")))
+        .to.emit(factory, "NewSwapFee")
+        .withArgs(true, parseEther("0.0005"), parseEther("0.001"));
+
+      await expect(factory.connect(owner).setSwapFee(false, parseEther("0.01")))
+        .to.emit(factory, "NewSwapFee")
+        .withArgs(false, parseEther("0.003"), parseEther("0.01"));
+
+      const [stableMetadata, volatileMetadata] = await Promise.all([
+        stablePair.metadata(),
+        volatilePair.metadata(),
+      ]);
+
+      expect(stableMetadata.fee).to.be.equal(parseEther("0.001"));
+      expect(volatileMetadata.fee).to.be.equal(parseEther("0.01"));
+      expect(await factory.getSwapFee(stablePair.address)).to.be.equal(
+        parseEther("0.001")
+      );
+      expect(await factory.getSwapFee(volatilePair.address)).to.be.equal(
+        parseEther("0.01")
+      );
+    });
+  });
+
+  describe("function: setPairSwapFee", () => {
+    it("reverts if it is not called by the governor, the pair is invalid or the fee is too high", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, false);
+      const pair = await factory.getPair(tokenA.address, tokenB.address, false);
+
+      await Promise.all([
+        expect(
+          factory.connect(alice).setPairSwapFee(pair, parseEther("0.001"))
+        ).to.be.revertedWith("Factory__Unauthorized()"),
+        expect(
+          factory
+            .connect(owner)
+            .setPairSwapFee(tokenA.address, parseEther("0.001"))
+        ).to.be.revertedWith("Factory__NotAPair()"),
+        expect(
+          factory.connect(owner).setPairSwapFee(pair, parseEther("0.0101"))
+        ).to.be.revertedWith("Factory__FeeTooHigh()"),
+      ]);
+    });
+    it("overrides the swap fee of a single pair", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, false);
+      const pair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, false)
+      );
+
+      await expect(factory.connect(owner).setPairSwapFee(pair.address, 0))
+        .to.emit(factory, "NewPairSwapFee")
+        .withArgs(pair.address, parseEther("0.003"), 0);
+
+      expect(await pair.swapFee()).to.be.equal(0);
+
+      // The default fee no longer applies to the pair
+      await factory.connect(owner).setSwapFee(false, parseEther("0.002"));
+
+      expect((await pair.metadata()).fee).to.be.equal(0);
+
+      await expect(
+        factory.connect(owner).setPairSwapFee(pair.address, parseEther("0.001"))
+      )
+        .to.emit(factory, "NewPairSwapFee")
+        .withArgs(pair.address, 0, parseEther("0.001"));
+
+      expect(await pair.swapFee()).to.be.equal(parseEther("0.001"));
+    });
+  });
+
+  describe("function: removePairSwapFee", () => {
+    it("reverts if it is not called by the governor", async () => {
+      await expect(
+        factory.connect(alice).removePairSwapFee(alice.address)
+      ).to.be.revertedWith("Factory__Unauthorized()");
+    });
+    it("makes a pair use the swap fee of its curve type again", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, true);
+      const pair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, true)
+      );
+
+      await factory.connect(owner).setPairSwapFee(pair.address, 0);
+      expect(await pair.swapFee()).to.be.equal(0);
+
+      await expect(factory.connect(owner).removePairSwapFee(pair.address))
+        .to.emit(factory, "RemovePairSwapFee")
+        .withArgs(pair.address);
+
+      expect(await pair.swapFee()).to.be.equal(parseEther("0.0005"));
+    });
+  });
+
+  describe("function: setTwap", () => {
+    it("reverts if it is not called by the governor or the settings are invalid", async () => {
+      await Promise.all([
+        expect(factory.connect(alice).setTwap(3600, 12)).to.be.revertedWith(
+          "Factory__Unauthorized()"
+        ),
+        expect(factory.connect(owner).setTwap(3600, 1)).to.be.revertedWith(
+          "Factory__InvalidTwap()"
+        ),
+        expect(factory.connect(owner).setTwap(4900, 49)).to.be.revertedWith(
+          "Factory__InvalidTwap()"
+        ),
+        expect(factory.connect(owner).setTwap(1000, 3)).to.be.revertedWith(
+          "Factory__InvalidTwap()"
+        ),
+        expect(factory.connect(owner).setTwap(0, 2)).to.be.revertedWith(
+          "Factory__InvalidTwap()"
+        ),
+        expect(
+          factory.connect(owner).setTwap(8 * 86_400, 8)
+        ).to.be.revertedWith("Factory__InvalidTwap()"),
+      ]);
+    });
+
+    it("sets the TWAP settings of the new pairs", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, false);
+
+      await expect(factory.connect(owner).setTwap(86_400, 24))
+        .to.emit(factory, "NewTwap")
+        .withArgs(86_400, 24);
+
+      await factory.createPair(tokenA.address, tokenB.address, true);
+
+      const [volatilePair, stablePair] = await Promise.all(
+        [false, true].map(async (stable) =>
+          (
+            await ethers.getContractFactory("Pair")
+          ).attach(
+            await factory.getPair(tokenA.address, tokenB.address, stable)
+          )
+        )
+      );
+
+      // The existing pair keeps its settings
+      expect(await volatilePair.twapWindow()).to.be.equal(900);
+      expect(await volatilePair.observationLength()).to.be.equal(5);
+
+      expect(await stablePair.twapWindow()).to.be.equal(86_400);
+      expect(await stablePair.twapGranularity()).to.be.equal(24);
+      expect(await stablePair.twapPeriodSize()).to.be.equal(3600);
+      expect(await stablePair.observationLength()).to.be.equal(24);
+    });
+  });
+
+  describe("function: setPairTwap", () => {
+    it("reverts if it is not called by the governor, the pair is invalid or the settings are invalid", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, false);
+      const pair = await factory.getPair(tokenA.address, tokenB.address, false);
+
+      await Promise.all([
+        expect(
+          factory.connect(alice).setPairTwap(pair, 3600, 12)
+        ).to.be.revertedWith("Factory__Unauthorized()"),
+        expect(
+          factory.connect(owner).setPairTwap(tokenA.address, 3600, 12)
+        ).to.be.revertedWith("Factory__NotAPair()"),
+        expect(
+          factory.connect(owner).setPairTwap(pair, 3600, 7)
+        ).to.be.revertedWith("Factory__InvalidTwap()"),
+      ]);
+    });
+
+    it("changes the TWAP settings of a single pair", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, false);
+      const pair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, false)
+      );
+
+      await expect(factory.connect(owner).setPairTwap(pair.address, 3600, 12))
+        .to.emit(factory, "NewPairTwap")
+        .withArgs(pair.address, 3600, 12);
+
+      expect(await pair.twapWindow()).to.be.equal(3600);
+      expect(await pair.twapPeriodSize()).to.be.equal(300);
+      expect(await pair.observationLength()).to.be.equal(12);
+
+      // The defaults of the new pairs do not change
+      expect(await factory.twapWindow()).to.be.equal(900);
+      expect(await factory.twapGranularity()).to.be.equal(5);
+    });
+  });
+
   describe("function: createPair", () => {
     it("reverts if you pass invalid data or pair has been deployed already", async () => {
       await Promise.all([
@@ -0,0 +1,244 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Factory, Router, ERC20, WNT } from "../typechain";
+
+import {
+  createState,
+  IndexerState,
+  loadState,
+  saveState,
+  sync,
+} from "../lib/indexer";
+import { PoolType } from "../lib/routes";
+
+import { advanceBlock, multiDeploy } from "./utils";
+
+const { parseEther } = ethers.utils;
+
+describe("Indexer", () => {
+  let factory: Factory;
+  let router: Router;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+
+  let alice: SignerWithAddress;
+
+  let startBlock: number;
+  let chainId: number;
+
+  const newState = () => createState(chainId, factory.address, startBlock);
+
+  const addLiquidity = (stable: boolean, amount: string) =>
+    router
+      .connect(alice)
+      .addLiquidity(
+        tokenA.address,
+        tokenB.address,
+        stable,
+        parseEther(amount),
+        parseEther(amount),
+        0,
+        0,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+  const swap = (amount: string) =>
+    router
+      .connect(alice)
+      .swapExactTokensForTokens(
+        parseEther(amount),
+        0,
+        [{ from: tokenA.address, to: tokenB.address, poolType: PoolType.Auto }],
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+  const names = (state: IndexerState) => state.events.map(({ name }) => name);
+
+  beforeEach(async () => {
+    let wnt: WNT;
+
+    [[, alice], [factory, tokenA, tokenB, wnt]] = await Promise.all([
+      ethers.getSigners(),
+      multiDeploy(
+        ["Factory", "ERC20", "ERC20", "WNT"],
+        [[], ["TokenA", "TA"], ["TokenB", "TB"]]
+      ),
+    ]);
+
+    [router, { chainId }] = await Promise.all([
+      multiDeploy(["Router"], [[factory.address, wnt.address]]).then(
+        ([router]) => router
+      ),
+      ethers.provider.getNetwork(),
+    ]);
+
+    startBlock = (await factory.deployTransaction.wait()).blockNumber;
+
+    for (const token of [tokenA, tokenB]) {
+      await token.mint(alice.address, parseEther("1000"));
+      await token
+        .connect(alice)
+        .approve(router.address, ethers.constants.MaxUint256);
+    }
+  });
+
+  it("indexes the factory and every pair", async () => {
+    await addLiquidity(false, "100");
+    await addLiquidity(true, "100");
+    await swap("1");
+
+    const state = newState();
+    const result = await sync(ethers.provider, state, { confirmations: 0 });
+
+    expect(result.removed).to.be.equal(0);
+    expect(result.added).to.be.equal(state.events.length);
+    expect(state.pairs.length).to.be.equal(2);
+    expect(state.pairs.map(({ stable }) => stable)).to.be.deep.equal([
+      false,
+      true,
+    ]);
+
+    const volatilePair = await factory.getPair(
+      tokenA.address,
+      tokenB.address,
+      false
+    );
+
+    expect(state.pairs[0].address).to.be.equal(volatilePair);
+
+    // Router creates the pair and then adds liquidity. Minting the first liquidity also mints the locked supply to the zero address.
+    expect(names(state)).to.be.deep.equal([
+      "PairCreated",
+      "Transfer",
+      "Transfer",
+      "Sync",
+      "Mint",
+      "PairCreated",
+      "Transfer",
+      "Transfer",
+      "Sync",
+      "Mint",
+      "Sync",
+      "Swap",
+    ]);
+
+    const swapEvent = state.events[state.events.length - 1];
+
+    // The stable pair quotes more with balanced reserves
+    expect(swapEvent.address).to.be.equal(state.pairs[1].address);
+    expect(swapEvent.args.to).to.be.equal(alice.address);
+
+    const amountIn =
+      swapEvent.args.amount0In === "0"
+        ? swapEvent.args.amount1In
+        : swapEvent.args.amount0In;
+
+    expect(amountIn).to.be.equal(parseEther("1").toString());
+
+    // Small batches return the same events
+    const batched = newState();
+    await sync(ethers.provider, batched, { confirmations: 0, batchSize: 1 });
+
+    expect(batched.events).to.be.deep.equal(state.events);
+  });
+
+  it("resumes from the saved state", async () => {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+      "hardhat.json"
+    );
+
+    await addLiquidity(false, "100");
+
+    const state = loadState(file, chainId, factory.address, startBlock);
+    await sync(ethers.provider, state, { confirmations: 2 });
+    saveState(file, state);
+
+    const finalized = state.finalized!.number;
+    const length = state.events.length;
+
+    await swap("1");
+
+    const resumed = loadState(file, chainId, factory.address, startBlock);
+    const result = await sync(ethers.provider, resumed, { confirmations: 2 });
+
+    // The swap adds a {Sync} and a {Swap}. Nothing else is duplicated.
+    expect(resumed.events.length).to.be.equal(length + 2);
+    expect(result.fromBlock).to.be.equal(finalized + 1);
+    expect(names(resumed).slice(-2)).to.be.deep.equal(["Sync", "Swap"]);
+
+    expect(() => loadState(file, chainId + 1, factory.address, 0)).to.throw(
+      `Indexer state at ${file} was written for factory ${factory.address} on chain ${chainId}`
+    );
+  });
+
+  it("re-processes the blocks that can still be reorged", async () => {
+    await addLiquidity(false, "100");
+
+    const state = newState();
+    await sync(ethers.provider, state, { confirmations: 3 });
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+    await swap("1");
+    await sync(ethers.provider, state, { confirmations: 3 });
+
+    expect(names(state).slice(-1)).to.be.deep.equal(["Swap"]);
+
+    const reorged = state.events[state.events.length - 1];
+
+    // The swap is replaced by a different one in the same block
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await swap("2");
+
+    const result = await sync(ethers.provider, state, { confirmations: 3 });
+
+    expect(result.removed).to.be.greaterThan(0);
+
+    const swapEvents = state.events.filter(({ name }) => name === "Swap");
+
+    expect(swapEvents.length).to.be.equal(1);
+    expect(swapEvents[0].blockNumber).to.be.equal(reorged.blockNumber);
+    expect(swapEvents[0].blockHash).to.not.be.equal(reorged.blockHash);
+    // Either token can be token0, so the amount in is in one of the two fields
+    const amountIn = ({ args }: typeof reorged) =>
+      ethers.BigNumber.from(args.amount0In).add(args.amount1In as string);
+
+    expect(amountIn(swapEvents[0])).to.be.equal(parseEther("2"));
+    expect(amountIn(reorged)).to.be.equal(parseEther("1"));
+  });
+
+  it("reverts if a finalized block is reorged", async () => {
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+    await addLiquidity(false, "100");
+    await advanceBlock(ethers);
+    await advanceBlock(ethers);
+
+    const state = newState();
+    await sync(ethers.provider, state, { confirmations: 1 });
+
+    const finalized = state.finalized!.number;
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    for (let i = 0; i < 4; i++) await advanceBlock(ethers);
+
+    const error = await sync(ethers.provider, state, { confirmations: 1 }).then(
+      () => null,
+      (error: Error) => error
+    );
+
+    expect(error?.message).to.be.equal(
+      `Block ${finalized} was reorged. The indexer only recovers from reorgs of up to 1 blocks`
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { ERC20, Factory, Pair } from "../typechain";
+
+import {
+  getSchedule,
+  getSecondsUntilNextSync,
+  keep,
+  KeeperLogEntry,
+} from "../lib/keeper";
+
+import {
+  advanceBlockAndTime,
+  deployFactoryAndTokens,
+  getPair,
+  PERIOD_SIZE,
+  TWAP_WINDOW,
+} from "./utils";
+
+const { parseEther } = ethers.utils;
+
+const MARGIN = 60;
+
+describe("Keeper", () => {
+  let factory: Factory;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+
+  // The keeper watches pairAB but not pairBA, the stable pair of the same tokens
+  let pairAB: Pair;
+  let pairBA: Pair;
+
+  let keeper: SignerWithAddress;
+
+  let logs: Array<KeeperLogEntry>;
+
+  const log = (entry: KeeperLogEntry) => logs.push(entry);
+
+  const now = async () => (await ethers.provider.getBlock("latest")).timestamp;
+
+  beforeEach(async () => {
+    let owner: SignerWithAddress;
+
+    logs = [];
+
+    [[owner, keeper], [factory, tokenA, tokenB]] = await Promise.all([
+      ethers.getSigners(),
+      deployFactoryAndTokens(),
+    ]);
+
+    await Promise.all([
+      factory.createPair(tokenA.address, tokenB.address, false),
+      factory.createPair(tokenA.address, tokenB.address, true),
+      tokenA.mint(owner.address, parseEther("2000")),
+      tokenB.mint(owner.address, parseEther("2000")),
+    ]);
+
+    [pairAB, pairBA] = await Promise.all([
+      getPair(factory, tokenA.address, tokenB.address, false),
+      getPair(factory, tokenA.address, tokenB.address, true),
+    ]);
+
+    for (const pair of [pairAB, pairBA]) {
+      await tokenA.transfer(pair.address, parseEther("1000"));
+      await tokenB.transfer(pair.address, parseEther("1000"));
+      await pair.mint(owner.address);
+    }
+  });
+
+  it("syncs a pair just before its observations go stale", async () => {
+    const lastObservation = (
+      await pairAB.observations(await pairAB.observationIndex())
+    ).timestamp.toNumber();
+
+    const schedule = await getSchedule(ethers.provider, pairAB.address, MARGIN);
+
+    expect(schedule.periodSize).to.be.equal(PERIOD_SIZE);
+    expect(schedule.lastObservation).to.be.equal(lastObservation);
+    expect(schedule.deadline).to.be.equal(lastObservation + PERIOD_SIZE * 2);
+    expect(schedule.syncAt).to.be.equal(schedule.deadline - MARGIN);
+
+    let [result] = await keep(keeper, [pairAB.address], {
+      margin: MARGIN,
+      log,
+    });
+
+    expect(result.action).to.be.equal("wait");
+    expect(getSecondsUntilNextSync([result], await now())).to.be.equal(
+      schedule.syncAt - (await now())
+    );
+
+    await advanceBlockAndTime(schedule.syncAt - (await now()), ethers);
+
+    [result] = await keep(keeper, [pairAB.address], { margin: MARGIN, log });
+
+    const { timestamp } = await pairAB.observations(
+      await pairAB.observationIndex()
+    );
+    const receipt = await ethers.provider.getTransactionReceipt(
+      result.transactionHash!
+    );
+
+    expect(result.action).to.be.equal("sync");
+    expect(receipt.from).to.be.equal(keeper.address);
+    expect(receipt.to).to.be.equal(pairAB.address);
+    expect(timestamp).to.be.equal(
+      (await ethers.provider.getBlock(receipt.blockNumber)).timestamp
+    );
+
+    expect(logs.map(({ event }) => event)).to.be.deep.equal(["wait", "sync"]);
+    expect(logs[1]).to.include({
+      level: "info",
+      pair: pairAB.address,
+      transactionHash: result.transactionHash,
+      deadline: schedule.deadline,
+    });
+  });
+
+  it("keeps the TWAP of an idle pair fresh", async () => {
+    const start = await now();
+    let syncs = 0;
+
+    // Two windows without trades, with a keeper that wakes up every 30 seconds
+    while ((await now()) < start + TWAP_WINDOW * 2) {
+      await advanceBlockAndTime(30, ethers);
+
+      const [{ action }] = await keep(keeper, [pairAB.address], {
+        margin: MARGIN,
+        log,
+      });
+
+      if (action === "sync") syncs += 1;
+
+      if ((await now()) > start + TWAP_WINDOW)
+        await expect(pairAB.getTokenPrice(tokenA.address, parseEther("1"))).to
+          .not.reverted;
+    }
+
+    // One sync every two periods minus the margin
+    expect(syncs).to.be.closeTo(
+      Math.floor((TWAP_WINDOW * 2) / (PERIOD_SIZE * 2 - MARGIN)),
+      1
+    );
+    expect(logs.some(({ event }) => event === "stale")).to.be.equal(false);
+
+    // The pair without a keeper went stale
+    await expect(
+      pairBA.getTokenPrice(tokenA.address, parseEther("1"))
+    ).to.revertedWith("Pair__MissingObservation()");
+
+    // It is synced right away
+    const [{ action }] = await keep(keeper, [pairBA.address], { log });
+
+    expect(action).to.be.equal("sync");
+    expect(logs.slice(-2).map(({ event }) => event)).to.be.deep.equal([
+      "stale",
+      "sync",
+    ]);
+  });
+
+  it("does not send transactions in a dry run or above the gas price cap", async () => {
+    await advanceBlockAndTime(PERIOD_SIZE * 2, ethers);
+
+    const [blockNumber, index] = await Promise.all([
+      ethers.provider.getBlockNumber(),
+      pairAB.observationIndex(),
+    ]);
+
+    const [[dryRun], [expensive]] = await Promise.all([
+      keep(keeper, [pairAB.address], { dryRun: true, log }),
+      keep(keeper, [pairAB.address], {
+        maxGasPrice: ethers.constants.One,
+        log,
+      }),
+    ]);
+
+    expect(dryRun.action).to.be.equal("dry-run");
+    expect(expensive.action).to.be.equal("gas-price-too-high");
+    expect(await ethers.provider.getBlockNumber()).to.be.equal(blockNumber);
+    expect(await pairAB.observationIndex()).to.be.equal(index);
+
+    expect(logs.find(({ event }) => event === "gas-price-too-high")).to.include(
+      { level: "warn", maxGasPrice: "1" }
+    );
+
+    // A cap above the gas price sends the sync with it as the maximum fee
+    const [{ action, transactionHash }] = await keep(keeper, [pairAB.address], {
+      maxGasPrice: parseEther("0.000001"),
+      log,
+    });
+
+    expect(action).to.be.equal("sync");
+    expect(
+      (await ethers.provider.getTransaction(transactionHash!)).maxFeePerGas
+    ).to.be.equal(parseEther("0.000001"));
+  });
+});
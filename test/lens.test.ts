@@ -0,0 +1,240 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { ERC20, ERC20Small, Factory, Lens, Pair } from "../typechain";
+
+import { getAllPairs } from "../lib/lens";
+
+import {
+  deploy,
+  deployFactoryAndTokens,
+  getPair,
+  syncEveryPeriod,
+} from "./utils";
+
+const { parseEther, parseUnits } = ethers.utils;
+
+describe("Lens", () => {
+  let factory: Factory;
+  let lens: Lens;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+  let tokenC: ERC20Small;
+
+  // Alice provides liquidity to every pair but the stable A/B pair of the owner and the empty stable B/C pair
+  let pairs: Array<Pair>;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+
+  // Calls that run out of gas have no revert data to match
+  const rejects = (promise: Promise<unknown>) =>
+    promise.then(
+      () => false,
+      () => true
+    );
+
+  beforeEach(async () => {
+    [[owner, alice], [factory, tokenA, tokenB, tokenC]] = await Promise.all([
+      ethers.getSigners(),
+      deployFactoryAndTokens(),
+    ]);
+
+    lens = await deploy("Lens", [factory.address]);
+
+    const tokens: Array<[ERC20 | ERC20Small, ERC20 | ERC20Small, boolean]> = [
+      [tokenA, tokenB, false],
+      [tokenA, tokenB, true],
+      [tokenB, tokenC, true],
+      [tokenA, tokenC, false],
+      [tokenB, tokenC, false],
+    ];
+
+    for (const [token0, token1, stable] of tokens)
+      await factory.createPair(token0.address, token1.address, stable);
+
+    pairs = await Promise.all(
+      tokens.map(([token0, token1, stable]) =>
+        getPair(factory, token0.address, token1.address, stable)
+      )
+    );
+
+    await Promise.all([
+      tokenA.mint(owner.address, parseEther("1000")),
+      tokenB.mint(owner.address, parseEther("1000")),
+      tokenC.mint(owner.address, parseUnits("1000", 6)),
+    ]);
+
+    const addLiquidity = async (
+      pair: Pair,
+      tokens: [ERC20 | ERC20Small, ERC20 | ERC20Small],
+      amounts: [string, string],
+      to: string
+    ) => {
+      for (let i = 0; i < 2; i++)
+        await tokens[i].transfer(
+          pair.address,
+          parseUnits(amounts[i], await tokens[i].decimals())
+        );
+
+      await pair.mint(to);
+    };
+
+    await addLiquidity(
+      pairs[0],
+      [tokenA, tokenB],
+      ["100", "200"],
+      alice.address
+    );
+    await addLiquidity(
+      pairs[1],
+      [tokenA, tokenB],
+      ["100", "100"],
+      owner.address
+    );
+    await addLiquidity(
+      pairs[3],
+      [tokenA, tokenC],
+      ["100", "50"],
+      alice.address
+    );
+    await addLiquidity(
+      pairs[4],
+      [tokenB, tokenC],
+      ["100", "300"],
+      alice.address
+    );
+  });
+
+  it("returns the pairs and the positions of an account", async () => {
+    const [[infos, allPairsLength], metadata, totalSupply, balance] =
+      await Promise.all([
+        lens.getPairs(0, ethers.constants.MaxUint256, alice.address),
+        pairs[0].metadata(),
+        pairs[0].totalSupply(),
+        pairs[0].balanceOf(alice.address),
+      ]);
+
+    expect(allPairsLength).to.be.equal(5);
+    expect(infos.map(({ pair }) => pair)).to.be.deep.equal(
+      pairs.map(({ address }) => address)
+    );
+
+    const [info] = infos;
+    const symbols = { [tokenA.address]: "TA", [tokenB.address]: "TB" };
+
+    expect(info.token0).to.be.equal(metadata.t0);
+    expect(info.token1).to.be.equal(metadata.t1);
+    expect(info.symbol0).to.be.equal(symbols[metadata.t0]);
+    expect(info.symbol1).to.be.equal(symbols[metadata.t1]);
+    expect(info.decimals0).to.be.equal(18);
+    expect(info.decimals1).to.be.equal(18);
+    expect(info.stable).to.be.equal(false);
+    expect(info.reserve0).to.be.equal(metadata.r0);
+    expect(info.reserve1).to.be.equal(metadata.r1);
+    expect(info.swapFee).to.be.equal(metadata.fee);
+    expect(info.totalSupply).to.be.equal(totalSupply);
+    expect(info.balance).to.be.equal(balance);
+    expect(info.amount0).to.be.equal(balance.mul(metadata.r0).div(totalSupply));
+    expect(info.amount1).to.be.equal(balance.mul(metadata.r1).div(totalSupply));
+    expect(info.twapAvailable).to.be.equal(false);
+
+    // The owner has the LP tokens of the stable A/B pair
+    expect(infos[1].stable).to.be.equal(true);
+    expect(infos[1].totalSupply.gt(0)).to.be.equal(true);
+    expect(infos[1].balance).to.be.equal(0);
+    expect(infos[1].amount0).to.be.equal(0);
+
+    // Nobody provided liquidity to the stable B/C pair
+    expect(infos[2].reserve0).to.be.equal(0);
+    expect(infos[2].totalSupply).to.be.equal(0);
+    expect(infos[2].balance).to.be.equal(0);
+
+    // C has 6 decimals
+    expect(
+      infos[3].token0 === tokenC.address
+        ? infos[3].decimals0
+        : infos[3].decimals1
+    ).to.be.equal(6);
+
+    await syncEveryPeriod([pairs[0]]);
+
+    const [synced, withoutAccount] = await Promise.all([
+      lens.getPairInfo(pairs[0].address, alice.address),
+      lens.getPairInfo(pairs[0].address, ethers.constants.AddressZero),
+    ]);
+
+    expect(synced.twapAvailable).to.be.equal(true);
+    expect(withoutAccount.twapAvailable).to.be.equal(true);
+    expect(withoutAccount.balance).to.be.equal(0);
+    expect(withoutAccount.amount0).to.be.equal(0);
+    expect(withoutAccount.amount1).to.be.equal(0);
+
+    await expect(
+      lens.getPairInfo(tokenA.address, alice.address)
+    ).to.revertedWith("Lens__NotAPair()");
+  });
+
+  it("paginates the pairs of the factory", async () => {
+    const [[middle], [last], [outOfRange, allPairsLength]] = await Promise.all([
+      lens.getPairs(1, 2, alice.address),
+      lens.getPairs(4, 10, alice.address),
+      lens.getPairs(5, 1, alice.address),
+    ]);
+
+    expect(middle.map(({ pair }) => pair)).to.be.deep.equal([
+      pairs[1].address,
+      pairs[2].address,
+    ]);
+    expect(last.map(({ pair }) => pair)).to.be.deep.equal([pairs[4].address]);
+    expect(outOfRange).to.be.deep.equal([]);
+    expect(allPairsLength).to.be.equal(5);
+  });
+
+  describe("getAllPairs", () => {
+    it("reads every pair page by page", async () => {
+      const [[expected], onePage, twoPerPage] = await Promise.all([
+        lens.getPairs(0, ethers.constants.MaxUint256, alice.address),
+        getAllPairs(lens, alice.address),
+        getAllPairs(lens, alice.address, { pageSize: 2 }),
+      ]);
+
+      expect(onePage).to.be.deep.equal(expected);
+      expect(twoPerPage).to.be.deep.equal(expected);
+    });
+
+    it("splits the pages that are too large", async () => {
+      // The gas of the most expensive page of 2 pairs, so every page of 4 pairs runs out of gas
+      const gasLimit = (
+        await Promise.all(
+          [0, 1, 2, 3].map((start) =>
+            lens.estimateGas.getPairs(start, 2, alice.address)
+          )
+        )
+      ).reduce((max, gas) => (gas.gt(max) ? gas : max));
+
+      expect(
+        await rejects(lens.getPairs(0, 4, alice.address, { gasLimit }))
+      ).to.be.equal(true);
+
+      const [[expected], split] = await Promise.all([
+        lens.getPairs(0, ethers.constants.MaxUint256, alice.address),
+        getAllPairs(lens, alice.address, {
+          pageSize: 4,
+          overrides: { gasLimit },
+        }),
+      ]);
+
+      expect(split).to.be.deep.equal(expected);
+
+      // A single pair that does not fit is an error
+      expect(
+        await rejects(
+          getAllPairs(lens, alice.address, { overrides: { gasLimit: 50_000 } })
+        )
+      ).to.be.equal(true);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { ethers } from "hardhat";
+
+import { ERC20, ERC20Small, Factory, LPOracle, Pair } from "../typechain";
+
+import {
+  deploy,
+  deployFactoryAndTokens,
+  getPair,
+  syncEveryPeriod,
+} from "./utils";
+
+const { parseEther, parseUnits } = ethers.utils;
+
+describe("LPOracle", () => {
+  let factory: Factory;
+  let oracle: LPOracle;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+  let tokenC: ERC20Small;
+
+  // A/B is volatile and B/C is stable
+  let pairAB: Pair;
+  let pairBC: Pair;
+
+  let owner: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  const swap = async (
+    pair: Pair,
+    tokenIn: ERC20 | ERC20Small,
+    amountIn: BigNumber
+  ) => {
+    const [[token0], amountOut] = await Promise.all([
+      pair.tokens(),
+      pair.getAmountOut(tokenIn.address, amountIn),
+    ]);
+
+    await tokenIn.transfer(pair.address, amountIn);
+
+    await (token0 === tokenIn.address
+      ? pair.swap(0, amountOut, owner.address, [])
+      : pair.swap(amountOut, 0, owner.address, []));
+  };
+
+  // The value of the reserves of pair A/B in B at a price of 2 B per A, which a swap skews
+  const getNaivePrice = async () => {
+    const [[token0], reserve0, reserve1, totalSupply] = await Promise.all([
+      pairAB.tokens(),
+      pairAB.reserve0(),
+      pairAB.reserve1(),
+      pairAB.totalSupply(),
+    ]);
+
+    const [reserveA, reserveB] =
+      token0 === tokenA.address ? [reserve0, reserve1] : [reserve1, reserve0];
+
+    return reserveA.mul(2).add(reserveB).mul(parseEther("1")).div(totalSupply);
+  };
+
+  beforeEach(async () => {
+    [[owner, treasury], [factory, tokenA, tokenB, tokenC]] = await Promise.all([
+      ethers.getSigners(),
+      deployFactoryAndTokens(),
+    ]);
+
+    oracle = await deploy("LPOracle", [factory.address]);
+
+    await Promise.all([
+      factory.createPair(tokenA.address, tokenB.address, false),
+      factory.createPair(tokenB.address, tokenC.address, true),
+      tokenA.mint(owner.address, parseEther("2000")),
+      tokenB.mint(owner.address, parseEther("3000")),
+      tokenC.mint(owner.address, parseUnits("2000", 6)),
+    ]);
+
+    [pairAB, pairBC] = await Promise.all([
+      getPair(factory, tokenA.address, tokenB.address, false),
+      getPair(factory, tokenB.address, tokenC.address, true),
+    ]);
+
+    // 1 A is worth 2 B, and B and C are pegged
+    await tokenA.transfer(pairAB.address, parseEther("500"));
+    await tokenB.transfer(pairAB.address, parseEther("1000"));
+    await tokenB.transfer(pairBC.address, parseEther("1000"));
+    await tokenC.transfer(pairBC.address, parseUnits("1000", 6));
+
+    await pairAB.mint(owner.address);
+    await pairBC.mint(owner.address);
+  });
+
+  it("reverts if the pair, the quote token or the TWAP is invalid", async () => {
+    await expect(
+      oracle.getLPTokenPrice(tokenA.address, tokenA.address)
+    ).to.revertedWith("LPOracle__NotAPair()");
+
+    // The pair is younger than the window, so the pair reverts with Pair__MissingObservation
+    await expect(oracle.getLPTokenPrice(pairAB.address, tokenA.address)).to.be
+      .reverted;
+
+    await syncEveryPeriod([pairAB]);
+
+    await expect(
+      oracle.getLPTokenPrice(pairAB.address, tokenC.address)
+    ).to.revertedWith("LPOracle__InvalidToken()");
+
+    await factory.createPair(tokenA.address, tokenC.address, false);
+
+    await expect(
+      oracle.getFairReserves(
+        await factory.getPair(tokenA.address, tokenC.address, false)
+      )
+    ).to.revertedWith("LPOracle__NoLiquidity()");
+  });
+
+  it("prices a volatile pair with √(k · p0 · p1)", async () => {
+    await syncEveryPeriod([pairAB]);
+
+    const [
+      [fairReserve0, fairReserve1],
+      reserve0,
+      reserve1,
+      priceInA,
+      priceInB,
+      naivePrice,
+    ] = await Promise.all([
+      oracle.getFairReserves(pairAB.address),
+      pairAB.reserve0(),
+      pairAB.reserve1(),
+      oracle.getLPTokenPrice(pairAB.address, tokenA.address),
+      oracle.getLPTokenPrice(pairAB.address, tokenB.address),
+      getNaivePrice(),
+    ]);
+
+    // The pair is at its TWAP, so the fair reserves are the reserves
+    expect(fairReserve0).to.be.closeTo(reserve0, parseEther("0.000001"));
+    expect(fairReserve1).to.be.closeTo(reserve1, parseEther("0.000001"));
+    expect(priceInB).to.be.closeTo(naivePrice, parseEther("0.000001"));
+    expect(priceInA).to.be.closeTo(priceInB.div(2), parseEther("0.000001"));
+
+    // Dump 1000 A in the pair within a block
+    await swap(pairAB, tokenA, parseEther("1000"));
+
+    const [[manipulatedReserve0, manipulatedReserve1], manipulatedPrice] =
+      await Promise.all([
+        oracle.getFairReserves(pairAB.address),
+        oracle.getLPTokenPrice(pairAB.address, tokenB.address),
+      ]);
+
+    const k = (await pairAB.reserve0()).mul(await pairAB.reserve1());
+
+    // The fair reserves keep the invariant, which only grows with the swap fee
+    expect(manipulatedReserve0.mul(manipulatedReserve1)).to.be.closeTo(
+      k,
+      k.div(1e9)
+    );
+    expect(manipulatedPrice).to.be.closeTo(priceInB, priceInB.div(200));
+    expect(manipulatedPrice.gte(priceInB)).to.be.equal(true);
+    expect((await getNaivePrice()).gt(naivePrice.mul(6).div(5))).to.be.equal(
+      true
+    );
+  });
+
+  it("prices a stable pair with the x3y+y3x invariant", async () => {
+    await syncEveryPeriod([pairBC]);
+
+    const [[fairReserve0, fairReserve1], reserve0, reserve1, price] =
+      await Promise.all([
+        oracle.getFairReserves(pairBC.address),
+        pairBC.reserve0(),
+        pairBC.reserve1(),
+        oracle.getLPTokenPrice(pairBC.address, tokenC.address),
+      ]);
+
+    // Balanced reserves are the fair reserves at a price of 1
+    expect(fairReserve0).to.be.closeTo(reserve0, reserve0.div(10_000));
+    expect(fairReserve1).to.be.closeTo(reserve1, reserve1.div(10_000));
+
+    // 2000 C for sqrt(1000e18 * 1000e6) LP tokens
+    const expectedPrice = parseUnits("2000", 6)
+      .mul(parseEther("1"))
+      .div(await pairBC.totalSupply());
+
+    expect(price).to.be.closeTo(expectedPrice, expectedPrice.div(10_000));
+
+    // Drain most of the B of the pair within a block
+    await swap(pairBC, tokenC, parseUnits("900", 6));
+
+    const manipulatedPrice = await oracle.getLPTokenPrice(
+      pairBC.address,
+      tokenC.address
+    );
+
+    expect(manipulatedPrice).to.be.closeTo(price, price.div(1000));
+  });
+
+  it("dilutes the LP tokens with the pending protocol fees", async () => {
+    await factory.setFeeTo(treasury.address);
+
+    // Liquidity events record the invariant while the fee is on
+    await tokenA.transfer(pairAB.address, parseEther("5"));
+    await tokenB.transfer(pairAB.address, parseEther("10"));
+    await pairAB.mint(owner.address);
+
+    expect(await oracle.getTotalSupply(pairAB.address)).to.be.equal(
+      await pairAB.totalSupply()
+    );
+
+    await swap(pairAB, tokenA, parseEther("100"));
+    await swap(pairAB, tokenB, parseEther("150"));
+
+    const [pendingTotalSupply, totalSupply] = await Promise.all([
+      oracle.getTotalSupply(pairAB.address),
+      pairAB.totalSupply(),
+    ]);
+
+    expect(pendingTotalSupply.gt(totalSupply)).to.be.equal(true);
+
+    // The next liquidity event mints the same fees to the treasury
+    await tokenA.transfer(pairAB.address, parseEther("1"));
+    await tokenB.transfer(pairAB.address, parseEther("2"));
+    await pairAB.mint(owner.address);
+
+    expect(await pairAB.balanceOf(treasury.address)).to.be.equal(
+      pendingTotalSupply.sub(totalSupply)
+    );
+  });
+});
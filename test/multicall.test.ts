@@ -0,0 +1,291 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Factory, Router, ERC20, Pair, WNT } from "../typechain";
+
+import {
+  encodeRouterCall,
+  encodeSelfPermit,
+  encodeSwapBatch,
+  encodeSweepToken,
+  encodeUnwrapWNT,
+} from "../lib/multicall";
+import { signPermit } from "../lib/permit";
+import { PoolType } from "../lib/routes";
+
+import { deploy, multiDeploy } from "./utils";
+
+const { parseEther } = ethers.utils;
+
+describe("Multicall", () => {
+  let factory: Factory;
+  let router: Router;
+  let wnt: WNT;
+  let pair: Pair;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+
+  let deadline: number;
+
+  const getPair = async (tokenA: string, tokenB: string) =>
+    (await ethers.getContractAt(
+      "Pair",
+      await factory.getPair(tokenA, tokenB, false)
+    )) as Pair;
+
+  beforeEach(async () => {
+    [[owner, alice], [factory, tokenA, tokenB, wnt]] = await Promise.all([
+      ethers.getSigners(),
+      multiDeploy(
+        ["Factory", "ERC20", "ERC20", "WNT"],
+        [[], ["TokenA", "TA"], ["TokenB", "TB"], []]
+      ),
+    ]);
+
+    router = await deploy("Router", [factory.address, wnt.address]);
+
+    await Promise.all([
+      factory.createPair(tokenA.address, tokenB.address, false),
+      factory.createPair(tokenA.address, wnt.address, false),
+      tokenA.mint(owner.address, parseEther("1000")),
+      tokenB.mint(owner.address, parseEther("1000")),
+      tokenA.mint(alice.address, parseEther("100")),
+      wnt.deposit({ value: parseEther("100") }),
+    ]);
+
+    pair = await getPair(tokenA.address, tokenB.address);
+
+    const pairAWNT = await getPair(tokenA.address, wnt.address);
+
+    await Promise.all([
+      tokenA.transfer(pair.address, parseEther("100")),
+      tokenB.transfer(pair.address, parseEther("100")),
+      tokenA.transfer(pairAWNT.address, parseEther("100")),
+      wnt.transfer(pairAWNT.address, parseEther("100")),
+    ]);
+
+    await Promise.all([pair.mint(alice.address), pairAWNT.mint(owner.address)]);
+
+    deadline = (await ethers.provider.getBlock("latest")).timestamp + 1000;
+  });
+
+  describe("function: multicall", () => {
+    it("returns the result of every call", async () => {
+      const [isPair, pairFor] = await router.callStatic.multicall([
+        encodeRouterCall(router, "isPair", pair.address),
+        encodeRouterCall(
+          router,
+          "pairFor",
+          tokenA.address,
+          tokenB.address,
+          false
+        ),
+      ]);
+
+      expect(
+        router.interface.decodeFunctionResult("isPair", isPair)[0]
+      ).to.be.equal(true);
+      expect(
+        router.interface.decodeFunctionResult("pairFor", pairFor)[0]
+      ).to.be.equal(pair.address);
+    });
+
+    it("bubbles up the error of a call", async () => {
+      await expect(
+        router.multicall([
+          encodeRouterCall(router, "isPair", pair.address),
+          encodeUnwrapWNT(router, 1, alice.address),
+        ])
+      ).to.revertedWith("Router__InsufficientBalance()");
+    });
+  });
+
+  describe("function: selfPermit", () => {
+    it("permits and removes liquidity in one transaction", async () => {
+      const liquidity = await pair.balanceOf(alice.address);
+
+      const permit = await signPermit(
+        alice,
+        pair,
+        router.address,
+        liquidity,
+        deadline
+      );
+
+      await expect(
+        router
+          .connect(alice)
+          .multicall([
+            encodeSelfPermit(router, pair.address, permit, false),
+            encodeRouterCall(
+              router,
+              "removeLiquidity",
+              tokenA.address,
+              tokenB.address,
+              false,
+              liquidity,
+              0,
+              0,
+              alice.address,
+              deadline
+            ),
+          ])
+      )
+        .to.emit(pair, "Approval")
+        .withArgs(alice.address, router.address, liquidity)
+        .to.emit(pair, "Burn");
+
+      expect(await pair.balanceOf(alice.address)).to.be.equal(0);
+    });
+
+    it("skips the permit if the allowance is enough", async () => {
+      const permit = await signPermit(
+        alice,
+        pair,
+        router.address,
+        parseEther("1"),
+        deadline
+      );
+
+      // The permit is used before the multicall, e.g. by a front-runner
+      await pair.permit(
+        alice.address,
+        router.address,
+        permit.value,
+        permit.deadline,
+        permit.v,
+        permit.r,
+        permit.s
+      );
+
+      await expect(
+        router
+          .connect(alice)
+          .multicall([encodeSelfPermit(router, pair.address, permit, false)])
+      ).to.revertedWith("Pair__InvalidSignature()");
+
+      await expect(
+        router
+          .connect(alice)
+          .multicall([encodeSelfPermit(router, pair.address, permit)])
+      ).to.not.emit(pair, "Approval");
+    });
+  });
+
+  describe("function: unwrapWNT", () => {
+    it("swaps to the router and unwraps the output", async () => {
+      await tokenA.connect(alice).approve(router.address, parseEther("10"));
+
+      const [, { amount: amountOut }] = await router.getAmountsOut(
+        parseEther("10"),
+        [{ from: tokenA.address, to: wnt.address, poolType: PoolType.Auto }]
+      );
+
+      const calls = await encodeSwapBatch(router, {
+        amountIn: parseEther("10"),
+        amountOutMin: amountOut,
+        routes: [
+          { from: tokenA.address, to: wnt.address, poolType: PoolType.Auto },
+        ],
+        to: owner.address,
+        deadline,
+      });
+
+      await expect(() =>
+        router.connect(alice).multicall(calls)
+      ).to.changeEtherBalance(owner, amountOut);
+
+      expect(await wnt.balanceOf(router.address)).to.be.equal(0);
+    });
+  });
+
+  describe("function: sweepToken", () => {
+    it("reverts if the router holds less than the minimum", async () => {
+      await tokenB.transfer(router.address, parseEther("1"));
+
+      await expect(
+        router.sweepToken(tokenB.address, parseEther("2"), alice.address)
+      ).to.revertedWith("Router__InsufficientBalance()");
+
+      await expect(
+        router.multicall([
+          encodeSweepToken(router, tokenB.address, 0, alice.address),
+        ])
+      )
+        .to.emit(tokenB, "Transfer")
+        .withArgs(router.address, alice.address, parseEther("1"));
+    });
+
+    it("permits, swaps and sweeps the output in one transaction", async () => {
+      await Promise.all([
+        factory.createPair(pair.address, wnt.address, false),
+        wnt.deposit({ value: parseEther("60") }),
+      ]);
+
+      const lpPair = await getPair(pair.address, wnt.address);
+
+      // The LP tokens of the pair are an ERC-2612 token
+      await Promise.all([
+        pair.connect(alice).transfer(lpPair.address, parseEther("50")),
+        wnt.transfer(lpPair.address, parseEther("50")),
+      ]);
+      await lpPair.mint(owner.address);
+
+      const routes = [
+        { from: pair.address, to: wnt.address, poolType: PoolType.Volatile },
+      ];
+
+      const [, { amount: amountOut }] = await router.getAmountsOut(
+        parseEther("1"),
+        routes
+      );
+
+      const calls = await encodeSwapBatch(router, {
+        amountIn: parseEther("1"),
+        amountOutMin: amountOut,
+        routes,
+        to: alice.address,
+        deadline,
+        permit: await signPermit(
+          alice,
+          pair,
+          router.address,
+          parseEther("1"),
+          deadline
+        ),
+      });
+
+      expect(calls.length).to.be.equal(3);
+
+      await expect(() =>
+        router.connect(alice).multicall(calls)
+      ).to.changeEtherBalance(alice, amountOut);
+
+      const sweepCalls = await encodeSwapBatch(router, {
+        amountIn: parseEther("10"),
+        amountOutMin: 0,
+        routes: [
+          { from: wnt.address, to: pair.address, poolType: PoolType.Auto },
+        ],
+        to: alice.address,
+        deadline,
+      });
+
+      await wnt.approve(router.address, parseEther("10"));
+
+      const balance = await pair.balanceOf(alice.address);
+
+      await router.multicall(sweepCalls);
+
+      expect((await pair.balanceOf(alice.address)).gt(balance)).to.be.equal(
+        true
+      );
+      expect(await pair.balanceOf(router.address)).to.be.equal(0);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  ERC20,
+  ERC20Small,
+  Factory,
+  OracleAdapter,
+  OracleAdapterFactory,
+  Pair,
+} from "../typechain";
+
+import {
+  advanceBlockAndTime,
+  deploy,
+  deployFactoryAndTokens,
+  getPair,
+  PERIOD_SIZE,
+  syncEveryPeriod,
+  TWAP_WINDOW,
+} from "./utils";
+
+const { parseEther, parseUnits } = ethers.utils;
+
+describe("OracleAdapter", () => {
+  let factory: Factory;
+  let adapterFactory: OracleAdapterFactory;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+  let tokenC: ERC20Small;
+
+  // A/B is volatile and B/C is stable, so B is the base token of A -> C
+  let pairAB: Pair;
+  let pairBC: Pair;
+
+  let owner: SignerWithAddress;
+
+  const getAdapter = async (pairs: Array<string>, tokenIn: string) =>
+    (await ethers.getContractAt(
+      "OracleAdapter",
+      await adapterFactory.getAdapter(pairs, tokenIn)
+    )) as OracleAdapter;
+
+  beforeEach(async () => {
+    [[owner], [factory, tokenA, tokenB, tokenC]] = await Promise.all([
+      ethers.getSigners(),
+      deployFactoryAndTokens(),
+    ]);
+
+    adapterFactory = await deploy("OracleAdapterFactory", [factory.address]);
+
+    await Promise.all([
+      factory.createPair(tokenA.address, tokenB.address, false),
+      factory.createPair(tokenB.address, tokenC.address, true),
+      tokenA.mint(owner.address, parseEther("1000")),
+      tokenB.mint(owner.address, parseEther("2000")),
+      tokenC.mint(owner.address, parseUnits("1000", 6)),
+    ]);
+
+    [pairAB, pairBC] = await Promise.all([
+      getPair(factory, tokenA.address, tokenB.address, false),
+      getPair(factory, tokenB.address, tokenC.address, true),
+    ]);
+
+    // 1 A is worth 2 B, and B and C are pegged
+    await tokenA.transfer(pairAB.address, parseEther("500"));
+    await tokenB.transfer(pairAB.address, parseEther("1000"));
+    await tokenB.transfer(pairBC.address, parseEther("1000"));
+    await tokenC.transfer(pairBC.address, parseUnits("1000", 6));
+
+    await pairAB.mint(owner.address);
+    await pairBC.mint(owner.address);
+  });
+
+  describe("OracleAdapterFactory", () => {
+    it("creates one adapter per chain of pairs and direction", async () => {
+      const adapter = await adapterFactory.callStatic.createAdapter(
+        [pairAB.address],
+        tokenA.address
+      );
+
+      await expect(
+        adapterFactory.createAdapter([pairAB.address], tokenA.address)
+      )
+        .to.emit(adapterFactory, "AdapterCreated")
+        .withArgs(tokenA.address, tokenB.address, [pairAB.address], adapter, 1);
+
+      await expect(
+        adapterFactory.createAdapter([pairAB.address], tokenA.address)
+      ).to.revertedWith("OracleAdapterFactory__AlreadyDeployed()");
+
+      // The other direction is another adapter
+      await adapterFactory.createAdapter([pairAB.address], tokenB.address);
+
+      const [
+        adapterAB,
+        adapterBA,
+        isAdapter,
+        isNotAdapter,
+        allAdaptersLength,
+        firstAdapter,
+      ] = await Promise.all([
+        adapterFactory.getAdapter([pairAB.address], tokenA.address),
+        adapterFactory.getAdapter([pairAB.address], tokenB.address),
+        adapterFactory.isAdapter(adapter),
+        adapterFactory.isAdapter(pairAB.address),
+        adapterFactory.allAdaptersLength(),
+        adapterFactory.allAdapters(0),
+      ]);
+
+      expect(adapterAB).to.be.equal(adapter);
+      expect(adapterBA).to.not.be.equal(adapter);
+      expect(isAdapter).to.be.equal(true);
+      expect(isNotAdapter).to.be.equal(false);
+      expect(allAdaptersLength).to.be.equal(2);
+      expect(firstAdapter).to.be.equal(adapter);
+      expect(
+        await adapterFactory.getAdapter([pairBC.address], tokenB.address)
+      ).to.be.equal(ethers.constants.AddressZero);
+    });
+
+    it("reverts if the path is invalid", async () => {
+      await expect(
+        adapterFactory.createAdapter([tokenA.address], tokenA.address)
+      ).to.revertedWith("OracleAdapterFactory__NotAPair()");
+
+      await expect(
+        adapterFactory.createAdapter([], tokenA.address)
+      ).to.revertedWith("OracleAdapter__InvalidPath()");
+
+      await expect(
+        adapterFactory.createAdapter([pairBC.address], tokenA.address)
+      ).to.revertedWith("OracleAdapter__InvalidPath()");
+
+      await expect(
+        adapterFactory.createAdapter(
+          [pairAB.address, pairBC.address],
+          tokenB.address
+        )
+      ).to.revertedWith("OracleAdapter__InvalidPath()");
+
+      await expect(
+        adapterFactory.createAdapter(
+          [pairAB.address, pairAB.address, pairAB.address, pairAB.address],
+          tokenA.address
+        )
+      ).to.revertedWith("OracleAdapter__InvalidPath()");
+    });
+  });
+
+  it("has the metadata of a price feed", async () => {
+    await adapterFactory.createAdapter(
+      [pairAB.address, pairBC.address],
+      tokenA.address
+    );
+
+    const adapter = await getAdapter(
+      [pairAB.address, pairBC.address],
+      tokenA.address
+    );
+
+    const [decimals, description, version, tokenIn, tokenOut, pairs, path] =
+      await Promise.all([
+        adapter.decimals(),
+        adapter.description(),
+        adapter.version(),
+        adapter.tokenIn(),
+        adapter.tokenOut(),
+        adapter.getPairs(),
+        adapter.getPath(),
+      ]);
+
+    // The answer is an amount of token C
+    expect(decimals).to.be.equal(6);
+    expect(description).to.be.equal("TA / ST");
+    expect(version).to.be.equal(1);
+    expect(tokenIn).to.be.equal(tokenA.address);
+    expect(tokenOut).to.be.equal(tokenC.address);
+    expect(pairs).to.be.deep.equal([pairAB.address, pairBC.address]);
+    expect(path).to.be.deep.equal([
+      tokenA.address,
+      tokenB.address,
+      tokenC.address,
+    ]);
+
+    await expect(adapter.getRoundData(1)).to.revertedWith(
+      "OracleAdapter__NoRoundData()"
+    );
+  });
+
+  it("reports a stale TWAP through updatedAt", async () => {
+    await adapterFactory.createAdapter([pairAB.address], tokenA.address);
+
+    const adapter = await getAdapter([pairAB.address], tokenA.address);
+
+    // The pair is younger than the window
+    let { answer, updatedAt } = await adapter.latestRoundData();
+
+    expect(answer).to.be.equal(0);
+    expect(updatedAt).to.be.equal(0);
+
+    await syncEveryPeriod([pairAB]);
+
+    ({ answer, updatedAt } = await adapter.latestRoundData());
+
+    expect(answer.gt(0)).to.be.equal(true);
+    expect(updatedAt).to.be.equal(
+      (await ethers.provider.getBlock("latest")).timestamp
+    );
+
+    // Nobody traded during the whole window
+    await advanceBlockAndTime(TWAP_WINDOW + 1, ethers);
+
+    ({ answer, updatedAt } = await adapter.latestRoundData());
+
+    expect(answer).to.be.equal(0);
+    expect(updatedAt).to.be.equal(0);
+  });
+
+  it("returns the TWAP of a pair", async () => {
+    await adapterFactory.createAdapter([pairAB.address], tokenA.address);
+    await adapterFactory.createAdapter([pairAB.address], tokenB.address);
+
+    const [adapterAB, adapterBA] = await Promise.all([
+      getAdapter([pairAB.address], tokenA.address),
+      getAdapter([pairAB.address], tokenB.address),
+    ]);
+
+    await syncEveryPeriod([pairAB]);
+
+    const [
+      { roundId, answer, startedAt, updatedAt, answeredInRound },
+      { answer: inverseAnswer },
+      priceA,
+      priceB,
+      { timestamp },
+    ] = await Promise.all([
+      adapterAB.latestRoundData(),
+      adapterBA.latestRoundData(),
+      pairAB.getTokenPrice(tokenA.address, parseEther("1")),
+      pairAB.getTokenPrice(tokenB.address, parseEther("1")),
+      ethers.provider.getBlock("latest"),
+    ]);
+
+    expect(answer).to.be.equal(priceA);
+    expect(inverseAnswer).to.be.equal(priceB);
+    expect(roundId).to.be.equal(timestamp);
+    expect(answeredInRound).to.be.equal(roundId);
+    expect(startedAt).to.be.equal(timestamp);
+    expect(updatedAt).to.be.equal(timestamp);
+
+    // 1 A is worth almost 2 B, minus the price impact of selling 1 A
+    expect(answer).to.be.closeTo(parseEther("2"), parseEther("0.01"));
+  });
+
+  it("quotes through a base token", async () => {
+    await adapterFactory.createAdapter(
+      [pairAB.address, pairBC.address],
+      tokenA.address
+    );
+
+    const adapter = await getAdapter(
+      [pairAB.address, pairBC.address],
+      tokenA.address
+    );
+
+    await syncEveryPeriod([pairAB, pairBC]);
+
+    const amountB = await pairAB.getTokenPrice(tokenA.address, parseEther("1"));
+
+    const [{ answer }, amountC] = await Promise.all([
+      adapter.latestRoundData(),
+      pairBC.getTokenPrice(tokenB.address, amountB),
+    ]);
+
+    expect(answer).to.be.equal(amountC);
+    expect(answer).to.be.closeTo(parseUnits("2", 6), parseUnits("0.01", 6));
+
+    // Any stale hop makes the answer stale
+    await advanceBlockAndTime(TWAP_WINDOW + 1, ethers);
+
+    for (let i = 0; i < 5; i++) {
+      await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+      await pairAB.sync();
+    }
+
+    await expect(pairAB.getTokenPrice(tokenA.address, parseEther("1"))).to.not
+      .reverted;
+
+    const { answer: staleAnswer, updatedAt } = await adapter.latestRoundData();
+
+    expect(staleAnswer).to.be.equal(0);
+    expect(updatedAt).to.be.equal(0);
+  });
+});
@@ -0,0 +1,434 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { BigNumber, ContractTransaction } from "ethers";
+import { ethers } from "hardhat";
+
+import { ERC20, Factory, FlashLoan, Pair } from "../typechain";
+
+import { decodeError } from "../lib/errors";
+import { k } from "../lib/quote";
+
+import { advanceTime, deploy, makeRandom, multiDeploy } from "./utils";
+
+// Seed of the random sequences, see {makeRandom}.
+const SEED = 20221020;
+
+// Sequences per pair and steps per sequence.
+const RUNS = 4;
+const STEPS = 25;
+
+const MINIMUM_LIQUIDITY = BigNumber.from(1000);
+
+// Amounts are drawn in basis points of the balance of the actor, so a step stays valid when the steps before it are removed.
+const BPS = 10_000;
+
+const random = makeRandom(SEED);
+
+const randomInt = (min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+const TOKENS: ReadonlyArray<[string, string]> = [
+  ["ERC20", "ERC20"],
+  ["ERC20", "ERC20Small"],
+];
+
+const KINDS = [
+  "mint",
+  "burn",
+  "swap",
+  "donate",
+  "skim",
+  "sync",
+  "flash",
+  "time",
+] as const;
+
+interface Step {
+  kind: typeof KINDS[number];
+  // Index of the actor in {Env.actors}.
+  actor: number;
+  zeroForOne: boolean;
+  // Basis points of the balance of the actor. Seconds for "time".
+  amount: number;
+}
+
+interface Env {
+  pair: Pair;
+  token0: ERC20;
+  token1: ERC20;
+  flashLoan: FlashLoan;
+  actors: Array<SignerWithAddress>;
+  treasury: SignerWithAddress;
+  stable: boolean;
+  decimals0: BigNumber;
+  decimals1: BigNumber;
+}
+
+interface Snapshot {
+  reserve0: BigNumber;
+  reserve1: BigNumber;
+  totalSupply: BigNumber;
+  cumulative0: BigNumber;
+  cumulative1: BigNumber;
+  observations: Array<{ timestamp: BigNumber; reserve0Cumulative: BigNumber }>;
+}
+
+interface Failure {
+  step: number;
+  message: string;
+}
+
+const generate = (): Array<Step> =>
+  Array.from({ length: STEPS }, () => {
+    const kind = KINDS[randomInt(0, KINDS.length - 1)];
+
+    return {
+      kind,
+      actor: randomInt(0, 1),
+      zeroForOne: random() < 0.5,
+      amount: kind === "time" ? randomInt(1, 2_000) : randomInt(1, BPS),
+    };
+  });
+
+const bps = (value: BigNumber, amount: number) => value.mul(amount).div(BPS);
+
+const takeSnapshot = async ({ pair }: Env): Promise<Snapshot> => {
+  const [reserves, totalSupply, cumulative, length] = await Promise.all([
+    pair.getReserves(),
+    pair.totalSupply(),
+    pair.currentCumulativeReserves(),
+    pair.observationLength(),
+  ]);
+
+  const observations = await Promise.all(
+    Array.from({ length: length.toNumber() }, (_, index) =>
+      pair.observations(index)
+    )
+  );
+
+  return {
+    reserve0: reserves[0],
+    reserve1: reserves[1],
+    totalSupply,
+    cumulative0: cumulative.reserve0Cumulative,
+    cumulative1: cumulative.reserve1Cumulative,
+    observations,
+  };
+};
+
+// Sends the transaction and returns false if the pair rejects it with a custom error. Rejected steps are part of the search.
+const attempt = async (send: () => Promise<ContractTransaction>) => {
+  try {
+    await (await send()).wait();
+    return true;
+  } catch (error) {
+    if (!decodeError(error)) throw error;
+    return false;
+  }
+};
+
+const applyStep = async (env: Env, step: Step) => {
+  const { pair, token0, token1, flashLoan } = env;
+  const actor = env.actors[step.actor];
+  const [tokenIn, tokenOut] = step.zeroForOne
+    ? [token0, token1]
+    : [token1, token0];
+
+  switch (step.kind) {
+    case "mint": {
+      const [balance0, balance1] = await Promise.all([
+        token0.balanceOf(actor.address),
+        token1.balanceOf(actor.address),
+      ]);
+      await token0
+        .connect(actor)
+        .transfer(pair.address, bps(balance0, step.amount));
+      await token1
+        .connect(actor)
+        .transfer(pair.address, bps(balance1, step.amount));
+      return attempt(() => pair.connect(actor).mint(actor.address));
+    }
+    case "burn": {
+      const balance = await pair.balanceOf(actor.address);
+      await pair
+        .connect(actor)
+        .transfer(pair.address, bps(balance, step.amount));
+      return attempt(() => pair.connect(actor).burn(actor.address));
+    }
+    case "swap": {
+      const amountIn = bps(await tokenIn.balanceOf(actor.address), step.amount);
+      const amountOut = await pair.getAmountOut(tokenIn.address, amountIn);
+      await tokenIn.connect(actor).transfer(pair.address, amountIn);
+      return attempt(() =>
+        step.zeroForOne
+          ? pair.connect(actor).swap(0, amountOut, actor.address, [])
+          : pair.connect(actor).swap(amountOut, 0, actor.address, [])
+      );
+    }
+    case "donate": {
+      const amount = bps(await tokenIn.balanceOf(actor.address), step.amount);
+      await tokenIn.connect(actor).transfer(pair.address, amount);
+      return true;
+    }
+    case "skim":
+      return attempt(() => pair.connect(actor).skim(actor.address));
+    case "sync":
+      return attempt(() => pair.connect(actor).sync());
+    case "flash": {
+      // Borrows part of the reserve of tokenOut. The actor funds the fee and the hook sends everything back.
+      const reserves = await pair.getReserves();
+      const reserve = step.zeroForOne ? reserves[1] : reserves[0];
+      const amountOut = bps(reserve, step.amount).div(2);
+      const fee = amountOut.div(100).add(1);
+      const balance = await tokenOut.balanceOf(actor.address);
+      // The loan reverts with Pair__K if the actor cannot pay the fee
+      await tokenOut
+        .connect(actor)
+        .transfer(flashLoan.address, fee.lt(balance) ? fee : balance);
+      return attempt(() =>
+        step.zeroForOne
+          ? flashLoan.loan(0, amountOut, flashLoan.address, "0x01")
+          : flashLoan.loan(amountOut, 0, flashLoan.address, "0x01")
+      );
+    }
+    case "time":
+      await advanceTime(step.amount, ethers);
+      return true;
+  }
+};
+
+const checkInvariants = async (
+  env: Env,
+  step: Step,
+  applied: boolean,
+  before: Snapshot,
+  after: Snapshot
+) => {
+  const { pair, token0, token1, stable, decimals0, decimals1 } = env;
+
+  const kBefore = k(
+    before.reserve0,
+    before.reserve1,
+    stable,
+    decimals0,
+    decimals1
+  );
+  const kAfter = k(
+    after.reserve0,
+    after.reserve1,
+    stable,
+    decimals0,
+    decimals1
+  );
+
+  if ((step.kind === "swap" || step.kind === "flash") && kAfter.lt(kBefore))
+    return `k decreased from ${kBefore} to ${kAfter}`;
+
+  const holders = [
+    ...env.actors.map(({ address }) => address),
+    env.treasury.address,
+    pair.address,
+    env.flashLoan.address,
+    ethers.constants.AddressZero,
+  ];
+
+  const balances = await Promise.all(
+    holders.map((holder) => pair.balanceOf(holder))
+  );
+
+  const sum = balances.reduce((acc, balance) => acc.add(balance));
+
+  if (!sum.eq(after.totalSupply))
+    return `totalSupply is ${after.totalSupply} but the holders own ${sum}`;
+
+  if (!balances[balances.length - 1].eq(MINIMUM_LIQUIDITY))
+    return `The zero address owns ${
+      balances[balances.length - 1]
+    } instead of the locked MINIMUM_LIQUIDITY`;
+
+  if (after.totalSupply.lt(MINIMUM_LIQUIDITY))
+    return `totalSupply ${after.totalSupply} is below MINIMUM_LIQUIDITY`;
+
+  if (step.kind === "sync" && applied) {
+    const [balance0, balance1] = await Promise.all([
+      token0.balanceOf(pair.address),
+      token1.balanceOf(pair.address),
+    ]);
+
+    if (!balance0.eq(after.reserve0) || !balance1.eq(after.reserve1))
+      return `Reserves ${after.reserve0}/${after.reserve1} do not match the balances ${balance0}/${balance1} after sync`;
+  }
+
+  if (
+    after.cumulative0.lt(before.cumulative0) ||
+    after.cumulative1.lt(before.cumulative1)
+  )
+    return "The cumulative reserves decreased";
+
+  for (const [index, observation] of after.observations.entries()) {
+    const previous = before.observations[index];
+
+    if (
+      observation.timestamp.lt(previous.timestamp) ||
+      observation.reserve0Cumulative.lt(previous.reserve0Cumulative)
+    )
+      return `Observation ${index} went back in time`;
+  }
+};
+
+// Runs every step from a fresh copy of the chain and returns the first broken invariant.
+const run = async (
+  env: Env,
+  steps: ReadonlyArray<Step>
+): Promise<Failure | undefined> => {
+  let before = await takeSnapshot(env);
+
+  for (const [index, step] of steps.entries()) {
+    const applied = await applyStep(env, step);
+    const after = await takeSnapshot(env);
+    const message = await checkInvariants(env, step, applied, before, after);
+
+    if (message) return { step: index, message };
+
+    before = after;
+  }
+};
+
+/**
+ * @dev Removes chunks of steps, from half of the sequence down to single steps, and keeps every removal that still fails. Then it halves the amounts of the remaining steps.
+ */
+const shrink = async (
+  steps: Array<Step>,
+  fails: (steps: Array<Step>) => Promise<Failure | undefined>
+) => {
+  let current = steps;
+
+  for (let size = Math.floor(current.length / 2); size >= 1; ) {
+    let removed = false;
+
+    for (let start = 0; start + size <= current.length; ) {
+      const candidate = [
+        ...current.slice(0, start),
+        ...current.slice(start + size),
+      ];
+
+      if (await fails(candidate)) {
+        current = candidate;
+        removed = true;
+      } else {
+        start += size;
+      }
+    }
+
+    if (!removed) size = Math.floor(size / 2);
+  }
+
+  for (let index = 0; index < current.length; index++) {
+    while (current[index].amount > 1) {
+      const { kind, actor, zeroForOne, amount } = current[index];
+      const candidate = current.slice();
+      candidate[index] = {
+        kind,
+        actor,
+        zeroForOne,
+        amount: Math.floor(amount / 2),
+      };
+
+      if (!(await fails(candidate))) break;
+
+      current = candidate;
+    }
+  }
+
+  return current;
+};
+
+describe("Pair invariants", () => {
+  for (const stable of [true, false]) {
+    for (const [nameA, nameB] of TOKENS) {
+      it(`holds on random sequences on ${
+        stable ? "stable" : "volatile"
+      } ${nameA}/${nameB} pairs`, async () => {
+        const [[, alice, bob, treasury], [factory, tokenA, tokenB]] =
+          (await Promise.all([
+            ethers.getSigners(),
+            multiDeploy(
+              ["Factory", nameA, nameB],
+              [[], ["TokenA", "TA"], ["TokenB", "TB"]]
+            ),
+          ])) as [Array<SignerWithAddress>, [Factory, ERC20, ERC20]];
+
+        await factory.createPair(tokenA.address, tokenB.address, stable);
+        await factory.setFeeTo(treasury.address);
+
+        const pair: Pair = (await ethers.getContractFactory("Pair")).attach(
+          await factory.getPair(tokenA.address, tokenB.address, stable)
+        );
+
+        const [token0Address] = await pair.tokens();
+        const [token0, token1] =
+          token0Address === tokenA.address
+            ? [tokenA, tokenB]
+            : [tokenB, tokenA];
+
+        const metadata = await pair.metadata();
+
+        const env: Env = {
+          pair,
+          token0,
+          token1,
+          flashLoan: await deploy("FlashLoan", [pair.address]),
+          actors: [alice, bob],
+          treasury,
+          stable,
+          decimals0: metadata.dec0,
+          decimals1: metadata.dec1,
+        };
+
+        for (const actor of env.actors) {
+          await token0.mint(actor.address, metadata.dec0.mul(1_000_000));
+          await token1.mint(actor.address, metadata.dec1.mul(1_000_000));
+        }
+
+        // Every sequence starts from a pair with liquidity
+        await token0
+          .connect(alice)
+          .transfer(pair.address, metadata.dec0.mul(1_000));
+        await token1
+          .connect(alice)
+          .transfer(pair.address, metadata.dec1.mul(1_000));
+        await pair.mint(alice.address);
+
+        let snapshotId: string = await ethers.provider.send("evm_snapshot", []);
+
+        const fails = async (steps: ReadonlyArray<Step>) => {
+          await ethers.provider.send("evm_revert", [snapshotId]);
+          snapshotId = await ethers.provider.send("evm_snapshot", []);
+          return run(env, steps);
+        };
+
+        for (let i = 0; i < RUNS; i++) {
+          const steps = generate();
+          const failure = await fails(steps);
+
+          if (!failure) continue;
+
+          const minimal = await shrink(steps, fails);
+          const reproduction = await fails(minimal);
+
+          console.log(
+            `Minimal failing sequence (seed ${SEED}, run ${i}):\n${JSON.stringify(
+              minimal,
+              null,
+              2
+            )}`
+          );
+
+          expect.fail(
+            `Step ${reproduction?.step} of ${minimal.length}: ${reproduction?.message}`
+          );
+        }
+      }).timeout(300_000);
+    }
+  }
+});
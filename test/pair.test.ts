@@ -13,23 +13,21 @@ import {
   Helper,
 } from "../typechain";
 
+import { signPermit } from "../lib/permit";
+
 import {
   multiDeploy,
   sortTokens,
-  getECSign,
-  getPairDigest,
-  getPairDomainSeparator,
-  PRIVATE_KEYS,
   advanceBlockAndTime,
   deploy,
   sqrt,
   min,
+  PERIOD_SIZE,
+  syncEveryPeriod,
 } from "./utils";
 
 const { parseEther } = ethers.utils;
 
-const PERIOD_SIZE = 900 / 5;
-
 const MINIMUM_LIQUIDITY = ethers.BigNumber.from(1000);
 
 const VOLATILE_SWAP_FEE = parseEther("0.003");
@@ -344,25 +342,17 @@ describe("Pair", () => {
     });
 
     it("reverts if the recovered address is wrong", async () => {
-      const chainId = network.config.chainId || 0;
-      const name = await volatilePair.name();
-      const domainSeparator = getPairDomainSeparator(
-        volatilePair.address,
-        name,
-        chainId
-      );
+      const deadline =
+        (await ethers.provider.getBlock("latest")).timestamp + 1000;
 
-      const digest = getPairDigest(
-        domainSeparator,
-        alice.address,
+      const { v, r, s } = await signPermit(
+        alice,
+        volatilePair,
         bob.address,
         parseEther("100"),
-        0,
-        1700587613
+        deadline
       );
 
-      const { v, r, s } = getECSign(PRIVATE_KEYS[1], digest);
-
       const bobAllowance = await volatilePair.allowance(
         alice.address,
         bob.address
@@ -378,7 +368,7 @@ describe("Pair", () => {
               owner.address,
               bob.address,
               parseEther("100"),
-              1700587613,
+              deadline,
               v,
               r,
               s
@@ -391,7 +381,7 @@ describe("Pair", () => {
               owner.address,
               bob.address,
               parseEther("100"),
-              1700587613,
+              deadline,
               0,
               ethers.constants.HashZero,
               ethers.constants.HashZero
@@ -401,25 +391,17 @@ describe("Pair", () => {
     });
 
     it("allows for permit call to give allowance", async () => {
-      const chainId = network.config.chainId || 0;
-      const name = await volatilePair.name();
-      const domainSeparator = getPairDomainSeparator(
-        volatilePair.address,
-        name,
-        chainId
-      );
+      const deadline =
+        (await ethers.provider.getBlock("latest")).timestamp + 1000;
 
-      const digest = getPairDigest(
-        domainSeparator,
-        alice.address,
+      const { v, r, s } = await signPermit(
+        alice,
+        volatilePair,
         bob.address,
         parseEther("100"),
-        0,
-        1700587613
+        deadline
       );
 
-      const { v, r, s } = getECSign(PRIVATE_KEYS[1], digest);
-
       const bobAllowance = await volatilePair.allowance(
         alice.address,
         bob.address
@@ -433,7 +415,7 @@ describe("Pair", () => {
             alice.address,
             bob.address,
             parseEther("100"),
-            1700587613,
+            deadline,
             v,
             r,
             s
@@ -463,6 +445,28 @@ describe("Pair", () => {
   });
 
   describe("Oracle functionality", () => {
+    const swapTokenA = async () => {
+      const [sortedToken0] = sortTokens(tokenA.address, tokenB.address);
+
+      const amountOut = await volatilePair.getAmountOut(
+        tokenA.address,
+        parseEther("1")
+      );
+
+      await tokenA
+        .connect(alice)
+        .transfer(volatilePair.address, parseEther("1"));
+
+      await volatilePair
+        .connect(alice)
+        .swap(
+          sortedToken0 === tokenA.address ? 0 : amountOut,
+          sortedToken0 === tokenA.address ? amountOut : 0,
+          alice.address,
+          []
+        );
+    };
+
     it("reverts if the first observation is stale", async () => {
       await expect(
         volatilePair.getTokenPrice(tokenA.address, parseEther("1"))
@@ -577,6 +581,586 @@ describe("Pair", () => {
         volatilePair.getTokenPrice(tokenA.address, parseEther("1"))
       ).to.revertedWith("Pair__MissingObservation()");
     });
+    describe("TWAP settings", () => {
+      beforeEach(async () => {
+        await Promise.all([
+          tokenA
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("500")),
+          tokenB
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("250")),
+        ]);
+
+        await volatilePair.mint(alice.address);
+      });
+
+      it("reverts if the settings are not changed by the factory", async () => {
+        await expect(volatilePair.setTwap(3600, 12)).to.revertedWith(
+          "Pair__Unauthorized()"
+        );
+      });
+
+      for (const [window, granularity] of [
+        [600, 2],
+        [3600, 12],
+        [86_400, 24],
+      ]) {
+        const periodSize = window / granularity;
+
+        it(`returns a TWAP over ${window} seconds with ${granularity} observations`, async () => {
+          await factory.setPairTwap(volatilePair.address, window, granularity);
+
+          // The ring buffer never shrinks below the 5 observations of the default settings
+          expect(await volatilePair.observationLength()).to.be.equal(
+            Math.max(granularity, 5)
+          );
+
+          const spotBefore = await volatilePair.getAmountOut(
+            tokenA.address,
+            parseEther("1")
+          );
+
+          for (let i = 0; i <= granularity; i++) {
+            await advanceBlockAndTime(periodSize + 1, ethers);
+            await swapTokenA();
+          }
+
+          expect(await volatilePair.observationCardinality()).to.be.equal(
+            Math.max(granularity, 5)
+          );
+
+          const [{ timestamp: now }, firstObservation, price, spotAfter] =
+            await Promise.all([
+              ethers.provider.getBlock("latest"),
+              volatilePair.getFirstObservationInWindow(),
+              volatilePair.getTokenPrice(tokenA.address, parseEther("1")),
+              volatilePair.getAmountOut(tokenA.address, parseEther("1")),
+            ]);
+
+          const timeElapsed = ethers.BigNumber.from(now).sub(
+            firstObservation.timestamp
+          );
+
+          expect(timeElapsed.lte(window)).to.be.equal(true);
+          expect(timeElapsed.gte(window - periodSize * 2)).to.be.equal(true);
+
+          // Every swap sells token A, so the average price is between the first and the last spot price
+          expect(price.lt(spotBefore)).to.be.equal(true);
+          expect(price.gt(spotAfter)).to.be.equal(true);
+
+          await advanceBlockAndTime(window + 1, ethers);
+
+          await expect(
+            volatilePair.getTokenPrice(tokenA.address, parseEther("1"))
+          ).to.revertedWith("Pair__MissingObservation()");
+        });
+      }
+
+      it("keeps the observations when the settings change", async () => {
+        for (let i = 0; i <= 5; i++) {
+          await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+          await swapTokenA();
+        }
+
+        await expect(
+          volatilePair.getTokenPrice(tokenA.address, parseEther("1"))
+        ).to.not.reverted;
+
+        const getObservations = () =>
+          Promise.all(
+            Array.from({ length: 5 }, (_, index) =>
+              volatilePair.observations(index)
+            )
+          );
+
+        const observations = await getObservations();
+
+        await factory.setPairTwap(volatilePair.address, 1800, 6);
+
+        expect(await volatilePair.observationLength()).to.be.equal(6);
+        expect(await getObservations()).to.be.deep.equal(observations);
+
+        // The history is shorter than the new window
+        await expect(
+          volatilePair.getTokenPrice(tokenA.address, parseEther("1"))
+        ).to.revertedWith("Pair__MissingObservation()");
+
+        await factory.setPairTwap(volatilePair.address, 600, 3);
+
+        expect(await volatilePair.observationLength()).to.be.equal(6);
+        expect(await volatilePair.twapPeriodSize()).to.be.equal(200);
+
+        await expect(
+          volatilePair.getTokenPrice(tokenA.address, parseEther("1"))
+        ).to.not.reverted;
+      });
+    });
+
+    describe("Observation history", () => {
+      const getCumulativeReserves = async () => {
+        const [{ timestamp }, reserve0Cumulative, reserve1Cumulative] =
+          await Promise.all([
+            ethers.provider.getBlock("latest"),
+            volatilePair.reserve0CumulativeLast(),
+            volatilePair.reserve1CumulativeLast(),
+          ]);
+
+        return { timestamp, reserve0Cumulative, reserve1Cumulative };
+      };
+
+      const getCumulativePrices = async () => {
+        const [{ timestamp }, price0Cumulative, price1Cumulative] =
+          await Promise.all([
+            ethers.provider.getBlock("latest"),
+            volatilePair.price0CumulativeLast(),
+            volatilePair.price1CumulativeLast(),
+          ]);
+
+        return { timestamp, price0Cumulative, price1Cumulative };
+      };
+
+      beforeEach(async () => {
+        await Promise.all([
+          tokenA
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("500")),
+          tokenB
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("250")),
+        ]);
+
+        await volatilePair.mint(alice.address);
+      });
+
+      it("lets anyone pay for a longer history", async () => {
+        await expect(
+          volatilePair.connect(bob).increaseObservationCardinalityNext(8)
+        )
+          .to.emit(volatilePair, "IncreaseObservationCardinalityNext")
+          .withArgs(5, 8);
+
+        await expect(
+          volatilePair.connect(bob).increaseObservationCardinalityNext(6)
+        ).to.not.emit(volatilePair, "IncreaseObservationCardinalityNext");
+
+        expect(await volatilePair.observationLength()).to.be.equal(8);
+        expect((await volatilePair.observations(7)).timestamp).to.be.equal(1);
+
+        for (let i = 0; i < 5; i++) {
+          await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+          await swapTokenA();
+        }
+
+        // The new observations are used once the buffer wraps
+        expect(await volatilePair.observationIndex()).to.be.equal(5);
+        expect(await volatilePair.observationCardinality()).to.be.equal(8);
+
+        for (let i = 0; i < 3; i++) {
+          await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+          await swapTokenA();
+        }
+
+        expect(await volatilePair.observationIndex()).to.be.equal(0);
+      });
+
+      it("observes the cumulative reserves at any time of the history", async () => {
+        await volatilePair.increaseObservationCardinalityNext(12);
+
+        // The reserves were zero between the first observation and the mint, so the history starts at the first swap
+        await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+        await swapTokenA();
+
+        const checkpoints = [await getCumulativeReserves()];
+
+        for (let i = 0; i < 10; i++) {
+          await advanceBlockAndTime(PERIOD_SIZE + 1 + i * 60, ethers);
+          await swapTokenA();
+          checkpoints.push(await getCumulativeReserves());
+        }
+
+        const { timestamp: now } = await ethers.provider.getBlock("latest");
+
+        // The reserves do not change between two swaps, so the interpolation is exact
+        const targets: typeof checkpoints = [];
+
+        for (const [index, checkpoint] of checkpoints.slice(1).entries()) {
+          const previous = checkpoints[index];
+          const timeElapsed = checkpoint.timestamp - previous.timestamp;
+
+          targets.push(checkpoint, {
+            timestamp: checkpoint.timestamp - 30,
+            reserve0Cumulative: checkpoint.reserve0Cumulative.sub(
+              checkpoint.reserve0Cumulative
+                .sub(previous.reserve0Cumulative)
+                .mul(30)
+                .div(timeElapsed)
+            ),
+            reserve1Cumulative: checkpoint.reserve1Cumulative.sub(
+              checkpoint.reserve1Cumulative
+                .sub(previous.reserve1Cumulative)
+                .mul(30)
+                .div(timeElapsed)
+            ),
+          });
+        }
+
+        const [reserve0Cumulatives, reserve1Cumulatives] =
+          await volatilePair.observe(
+            targets.map(({ timestamp }) => now - timestamp)
+          );
+
+        targets.forEach(({ reserve0Cumulative, reserve1Cumulative }, index) => {
+          expect(reserve0Cumulatives[index]).to.be.equal(reserve0Cumulative);
+          expect(reserve1Cumulatives[index]).to.be.equal(reserve1Cumulative);
+        });
+
+        // After the last swap the reserves are constant
+        await advanceBlockAndTime(100, ethers);
+
+        // The block can be a second later than 100 seconds after the last swap
+        const { timestamp: later } = await ethers.provider.getBlock("latest");
+
+        const [[current0], [current1]] = await volatilePair.observe([0]);
+        const [reserve0Cumulative, reserve1Cumulative] =
+          await volatilePair.currentCumulativeReserves();
+
+        expect(current0).to.be.equal(reserve0Cumulative);
+        expect(current1).to.be.equal(reserve1Cumulative);
+
+        // Older than the oldest observation, which the pair recorded when it was deployed
+        const { timestamp: oldest } = await volatilePair.observations(0);
+
+        await expect(
+          volatilePair.observe([later - oldest.toNumber() + 1])
+        ).to.revertedWith("Pair__MissingObservation()");
+
+        await expect(volatilePair.observe([later - oldest.toNumber()])).to.not
+          .reverted;
+      });
+
+      it("observes the cumulative prices at any time of the history", async () => {
+        await volatilePair.increaseObservationCardinalityNext(12);
+
+        await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+        await swapTokenA();
+
+        const checkpoints = [await getCumulativePrices()];
+
+        for (let i = 0; i < 10; i++) {
+          await advanceBlockAndTime(PERIOD_SIZE + 1 + i * 60, ethers);
+          await swapTokenA();
+          checkpoints.push(await getCumulativePrices());
+        }
+
+        const { timestamp: now } = await ethers.provider.getBlock("latest");
+
+        // The prices do not change between two swaps, so the interpolation is exact
+        const targets: typeof checkpoints = [];
+
+        for (const [index, checkpoint] of checkpoints.slice(1).entries()) {
+          const previous = checkpoints[index];
+          const timeElapsed = checkpoint.timestamp - previous.timestamp;
+
+          targets.push(checkpoint, {
+            timestamp: checkpoint.timestamp - 30,
+            price0Cumulative: checkpoint.price0Cumulative.sub(
+              checkpoint.price0Cumulative
+                .sub(previous.price0Cumulative)
+                .mul(30)
+                .div(timeElapsed)
+            ),
+            price1Cumulative: checkpoint.price1Cumulative.sub(
+              checkpoint.price1Cumulative
+                .sub(previous.price1Cumulative)
+                .mul(30)
+                .div(timeElapsed)
+            ),
+          });
+        }
+
+        const [price0Cumulatives, price1Cumulatives] =
+          await volatilePair.observePrices(
+            targets.map(({ timestamp }) => now - timestamp)
+          );
+
+        targets.forEach(({ price0Cumulative, price1Cumulative }, index) => {
+          expect(price0Cumulatives[index]).to.be.equal(price0Cumulative);
+          expect(price1Cumulatives[index]).to.be.equal(price1Cumulative);
+        });
+
+        // After the last swap the prices are constant. Both tokens have 18 decimals, so they are the ratios of the reserves
+        await advanceBlockAndTime(100, ethers);
+
+        const { timestamp: later } = await ethers.provider.getBlock("latest");
+
+        const [[[current0], [current1]], [reserve0, reserve1]] =
+          await Promise.all([
+            volatilePair.observePrices([0]),
+            volatilePair.getReserves(),
+          ]);
+
+        const last = checkpoints[checkpoints.length - 1];
+
+        expect(current0).to.be.equal(
+          last.price0Cumulative.add(
+            reserve1
+              .mul(parseEther("1"))
+              .div(reserve0)
+              .mul(later - now)
+          )
+        );
+        expect(current1).to.be.equal(
+          last.price1Cumulative.add(
+            reserve0
+              .mul(parseEther("1"))
+              .div(reserve1)
+              .mul(later - now)
+          )
+        );
+
+        const { timestamp: oldest } = await volatilePair.observations(0);
+
+        await expect(
+          volatilePair.observePrices([later - oldest.toNumber() + 1])
+        ).to.revertedWith("Pair__MissingObservation()");
+      });
+
+      it("consults a TWAP over any window of the history", async () => {
+        await volatilePair.increaseObservationCardinalityNext(30);
+
+        for (let i = 0; i < 25; i++) {
+          await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+          await swapTokenA();
+        }
+
+        await expect(
+          volatilePair.consult(tokenA.address, parseEther("1"), 0)
+        ).to.revertedWith("Pair__ZeroSecondsAgo()");
+
+        await expect(
+          volatilePair.consult(tokenA.address, parseEther("1"), 86_400)
+        ).to.revertedWith("Pair__MissingObservation()");
+
+        const [sortedToken0] = sortTokens(tokenA.address, tokenB.address);
+
+        const prices = [];
+
+        for (const secondsAgo of [300, 1800, 3600]) {
+          const [[start0, end0], [start1, end1]] = await volatilePair.observe([
+            secondsAgo,
+            0,
+          ]);
+
+          const reserve0 = end0.sub(start0).div(secondsAgo);
+          const reserve1 = end1.sub(start1).div(secondsAgo);
+
+          const [reserveA, reserveB] =
+            sortedToken0 === tokenA.address
+              ? [reserve0, reserve1]
+              : [reserve1, reserve0];
+
+          const price = await volatilePair.consult(
+            tokenA.address,
+            parseEther("1"),
+            secondsAgo
+          );
+
+          expect(price).to.be.closeTo(
+            parseEther("1")
+              .mul(reserveB)
+              .div(reserveA.add(parseEther("1"))),
+            parseEther("0.0001")
+          );
+
+          prices.push(price);
+        }
+
+        // Every swap sells token A, so longer windows average higher prices
+        expect(prices[0].lt(prices[1])).to.be.equal(true);
+        expect(prices[1].lt(prices[2])).to.be.equal(true);
+      });
+    });
+
+    describe("function: getTwapPrice", () => {
+      it("reverts if the first observation is stale", async () => {
+        await expect(
+          volatilePair.getTwapPrice(tokenA.address, parseEther("1"))
+        ).to.revertedWith("Pair__MissingObservation()");
+      });
+
+      it("is not skewed by liquidity added after a price manipulation", async () => {
+        // A shallow pool at a price of 1
+        await Promise.all([
+          tokenA
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("10")),
+          tokenB
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("10")),
+        ]);
+        await volatilePair.mint(alice.address);
+
+        await syncEveryPeriod([volatilePair]);
+
+        const [sortedToken0] = sortTokens(tokenA.address, tokenB.address);
+
+        // Bob dumps token A, then mints a lot of liquidity at the manipulated price, so it dominates the average reserves
+        const amountOut = await volatilePair.getAmountOut(
+          tokenA.address,
+          parseEther("10")
+        );
+        await tokenA
+          .connect(bob)
+          .transfer(volatilePair.address, parseEther("10"));
+        await volatilePair
+          .connect(bob)
+          .swap(
+            sortedToken0 === tokenA.address ? 0 : amountOut,
+            sortedToken0 === tokenA.address ? amountOut : 0,
+            bob.address,
+            []
+          );
+
+        const { timestamp: manipulatedAt } = await ethers.provider.getBlock(
+          "latest"
+        );
+
+        const [reserve0, reserve1] = await volatilePair.getReserves();
+        const [reserveA, reserveB] =
+          sortedToken0 === tokenA.address
+            ? [reserve0, reserve1]
+            : [reserve1, reserve0];
+
+        await Promise.all([
+          tokenA
+            .connect(bob)
+            .transfer(volatilePair.address, parseEther("4000")),
+          tokenB
+            .connect(bob)
+            .transfer(
+              volatilePair.address,
+              parseEther("4000").mul(reserveB).div(reserveA)
+            ),
+        ]);
+        await volatilePair.mint(bob.address);
+
+        await advanceBlockAndTime(PERIOD_SIZE, ethers);
+
+        const [{ timestamp: now }, { timestamp: start }] = await Promise.all([
+          ethers.provider.getBlock("latest"),
+          volatilePair.getFirstObservationInWindow(),
+        ]);
+
+        const manipulatedPrice = reserveB.mul(parseEther("1")).div(reserveA);
+
+        // The price was 1 until the swap and the manipulated price after it
+        const expectedPrice = parseEther("1")
+          .mul(manipulatedAt - start.toNumber())
+          .add(manipulatedPrice.mul(now - manipulatedAt))
+          .div(now - start.toNumber());
+
+        const [twapPrice, tokenPrice] = await Promise.all([
+          volatilePair.getTwapPrice(tokenA.address, parseEther("1")),
+          volatilePair.getTokenPrice(tokenA.address, parseEther("1")),
+        ]);
+
+        expect(twapPrice).to.be.closeTo(expectedPrice, parseEther("0.000001"));
+
+        // The average reserves are weighted by the liquidity, so the oracle of the reserves reports close to the manipulated price
+        expect(tokenPrice.lt(expectedPrice.div(2))).to.be.equal(true);
+        expect(tokenPrice.sub(manipulatedPrice).abs()).to.be.lt(
+          expectedPrice.sub(tokenPrice)
+        );
+      });
+
+      it("prices a stable pair at the slope of its curve", async () => {
+        await factory.createPair(tokenA.address, tokenC.address, true);
+
+        const stablePair = (await ethers.getContractFactory("Pair")).attach(
+          await factory.getPair(tokenA.address, tokenC.address, true)
+        );
+
+        await tokenC.mint(alice.address, parseTokenC("2000"));
+
+        await Promise.all([
+          tokenA
+            .connect(alice)
+            .transfer(stablePair.address, parseEther("1000")),
+          tokenC
+            .connect(alice)
+            .transfer(stablePair.address, parseTokenC("1000")),
+        ]);
+        await stablePair.mint(alice.address);
+
+        await syncEveryPeriod([stablePair]);
+
+        // The slope is 1 when the reserves are balanced
+        expect(
+          await stablePair.getTwapPrice(tokenA.address, parseEther("1"))
+        ).to.be.equal(parseTokenC("1"));
+        expect(
+          await stablePair.getTwapPrice(tokenC.address, parseTokenC("1"))
+        ).to.be.equal(parseEther("1"));
+
+        await tokenC
+          .connect(alice)
+          .transfer(stablePair.address, parseTokenC("500"));
+        await stablePair.sync();
+
+        // Wait for the previous price to leave the window
+        await syncEveryPeriod([stablePair], 6);
+
+        // A tiny swap pays the fee but has almost no price impact
+        const amountIn = parseEther("0.001");
+        const amountOut = await stablePair.getAmountOut(
+          tokenA.address,
+          amountIn
+        );
+
+        const spotPrice = amountOut
+          .mul(parseEther("1"))
+          .div(parseEther("1").sub(parseEther("0.0005")));
+
+        expect(
+          await stablePair.getTwapPrice(tokenA.address, amountIn)
+        ).to.be.closeTo(spotPrice, spotPrice.div(1000));
+
+        // The slope is computed with the lower ratio, so an extreme imbalance does not overflow and lock the pair
+        const donation = BigNumber.from(10).pow(35);
+
+        await tokenA.mint(alice.address, donation);
+        await tokenA.connect(alice).transfer(stablePair.address, donation);
+        await stablePair.sync();
+
+        await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+
+        await expect(stablePair.sync()).to.not.reverted;
+      });
+
+      it("bounds the prices of extreme reserves instead of reverting", async () => {
+        // Token A is worth less than 1e-18 of token B, and token B more than the maximum price in token A
+        const amountA = BigNumber.from(2).pow(200);
+
+        await tokenA.mint(alice.address, amountA);
+        await Promise.all([
+          tokenA.connect(alice).transfer(volatilePair.address, amountA),
+          tokenB.connect(alice).transfer(volatilePair.address, 1_000_000),
+        ]);
+        await volatilePair.mint(alice.address);
+
+        // The prices overflowed and reverted the syncs before they were bounded
+        await syncEveryPeriod([volatilePair]);
+
+        // The price of token A is 1 instead of 0, and the price of token B is capped at type(uint128).max
+        expect(
+          await volatilePair.getTwapPrice(tokenA.address, parseEther("1"))
+        ).to.be.equal(1);
+        expect(
+          await volatilePair.getTwapPrice(tokenB.address, parseEther("1"))
+        ).to.be.equal(BigNumber.from(2).pow(128).sub(1));
+      });
+    });
   });
 
   describe("function: mint", () => {
@@ -727,6 +1311,103 @@ describe("Pair", () => {
       expect(await volatilePair.kLast()).to.be.equal(0);
     });
 
+    it("splits the trading fees between LPs and the treasury by the protocol fee", async () => {
+      await factory.setFeeTo(treasury.address);
+
+      const [sortedToken0] = await helper.sortTokens(
+        tokenA.address,
+        tokenB.address
+      );
+
+      const addLiquidity = async () => {
+        await Promise.all([
+          tokenA
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("100")),
+          tokenB
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("50")),
+        ]);
+
+        await volatilePair.mint(alice.address);
+      };
+
+      const trade = async () => {
+        for (let i = 0; i < 10; i++) {
+          const [tokenIn, tokenOut] =
+            i % 2 === 0 ? [tokenA, tokenB] : [tokenB, tokenA];
+
+          const amountOut = await volatilePair.getAmountOut(
+            tokenIn.address,
+            parseEther("20")
+          );
+
+          await tokenIn
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("20"));
+
+          await volatilePair
+            .connect(alice)
+            .swap(
+              sortedToken0 === tokenOut.address ? amountOut : 0,
+              sortedToken0 === tokenOut.address ? 0 : amountOut,
+              alice.address,
+              []
+            );
+        }
+      };
+
+      for (const fee of ["0", "0.1", "0.25", "0.5"]) {
+        const snapshot = await network.provider.send("evm_snapshot", []);
+
+        await factory.setProtocolFee(parseEther(fee));
+
+        await addLiquidity();
+        await trade();
+
+        const [reserves, kLast, totalSupply] = await Promise.all([
+          volatilePair.getReserves(),
+          volatilePair.kLast(),
+          volatilePair.totalSupply(),
+        ]);
+
+        // The next liquidity event mints the fee with the reserves before it
+        await addLiquidity();
+
+        const treasuryBalance = await volatilePair.balanceOf(treasury.address);
+
+        const rootK = sqrt(reserves[0].mul(reserves[1]));
+        const growth = rootK.sub(sqrt(kLast));
+        const supply = totalSupply.add(treasuryBalance);
+
+        // Value of the LP tokens in sqrt(k) before the new liquidity
+        const treasuryShare = rootK.mul(treasuryBalance).div(supply);
+        const lpShare = rootK.mul(totalSupply).div(supply);
+
+        expect(growth.gt(0)).to.be.equal(true);
+        expect(treasuryShare).to.be.closeTo(
+          growth.mul(parseEther(fee)).div(parseEther("1")),
+          2
+        );
+        expect(lpShare).to.be.closeTo(
+          sqrt(kLast).add(
+            growth
+              .mul(parseEther("1").sub(parseEther(fee)))
+              .div(parseEther("1"))
+          ),
+          2
+        );
+
+        if (fee === "0") {
+          expect(treasuryBalance).to.be.equal(0);
+          // The fee is off, so the pair stops tracking k
+          expect(await volatilePair.kLast()).to.be.equal(0);
+        }
+
+        await network.provider.send("evm_revert", [snapshot]);
+      }
+    });
+
     it("mints the right amount of LP tokens", async () => {
       const [aliceBalance, addressZeroBalance] = await Promise.all([
         volatilePair.balanceOf(alice.address),
@@ -741,10 +1422,12 @@ describe("Pair", () => {
         tokenB.connect(alice).transfer(volatilePair.address, parseEther("50")),
       ]);
 
+      const [sortedToken0] = sortTokens(tokenA.address, tokenB.address);
+
       const amount0 =
-        tokenA.address > tokenB.address ? parseEther("50") : parseEther("100");
+        sortedToken0 === tokenB.address ? parseEther("50") : parseEther("100");
       const amount1 =
-        tokenA.address > tokenB.address ? parseEther("100") : parseEther("50");
+        sortedToken0 === tokenB.address ? parseEther("100") : parseEther("50");
 
       await expect(volatilePair.mint(alice.address))
         .to.emit(volatilePair, "Mint")
@@ -766,9 +1449,9 @@ describe("Pair", () => {
       ]);
 
       const _amount0 =
-        tokenA.address > tokenB.address ? parseEther("100") : parseEther("150");
+        sortedToken0 === tokenB.address ? parseEther("100") : parseEther("150");
       const _amount1 =
-        tokenA.address > tokenB.address ? parseEther("150") : parseEther("100");
+        sortedToken0 === tokenB.address ? parseEther("150") : parseEther("100");
 
       await expect(volatilePair.mint(alice.address))
         .to.emit(volatilePair, "Mint")
@@ -1247,12 +1930,9 @@ describe("Pair", () => {
       await advanceBlockAndTime(PERIOD_SIZE, ethers);
 
       await volatilePair.sync();
-      const blockTimestamp = (
-        await ethers.provider.getBlock(await ethers.provider.getBlockNumber())
-      ).timestamp;
 
       const observation = await volatilePair.observations(
-        await volatilePair.observationIndexOf(blockTimestamp)
+        await volatilePair.observationIndex()
       );
 
       await advanceBlockAndTime(PERIOD_SIZE / 2, ethers);
@@ -1261,7 +1941,7 @@ describe("Pair", () => {
 
       const [observationIndex, reserve0CumulativeLast, reserve1CumulativeLast] =
         await Promise.all([
-          volatilePair.observationIndexOf(blockTimestamp),
+          volatilePair.observationIndex(),
           volatilePair.reserve0CumulativeLast(),
           volatilePair.reserve1CumulativeLast(),
         ]);
@@ -1342,6 +2022,92 @@ describe("Pair", () => {
     });
   });
 
+  describe("function: getAmountIn", () => {
+    it("reverts if the amount out is not lower than the reserves", async () => {
+      await Promise.all([
+        tokenA
+          .connect(alice)
+          .transfer(volatilePair.address, parseEther("1000")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("500")),
+      ]);
+
+      await volatilePair.mint(alice.address);
+
+      await Promise.all([
+        expect(
+          volatilePair.getAmountIn(tokenA.address, parseEther("1000"))
+        ).to.revertedWith("Pair__NoLiquidity()"),
+        expect(
+          volatilePair.getAmountIn(tokenB.address, parseEther("500.1"))
+        ).to.revertedWith("Pair__NoLiquidity()"),
+      ]);
+
+      expect(await volatilePair.getAmountIn(tokenA.address, 0)).to.be.equal(0);
+    });
+
+    it("returns enough tokens to buy the amount out on both curves", async () => {
+      await Promise.all([
+        factory.createPair(tokenA.address, tokenC.address, false),
+        factory.createPair(tokenA.address, tokenC.address, true),
+        tokenC.mint(alice.address, parseTokenC("10000")),
+      ]);
+
+      const pairs = await Promise.all(
+        [false, true].map(async (stable) =>
+          (
+            await ethers.getContractFactory("Pair")
+          ).attach(
+            await factory.getPair(tokenA.address, tokenC.address, stable)
+          )
+        )
+      );
+
+      const [sortedToken0] = await helper.sortTokens(
+        tokenA.address,
+        tokenC.address
+      );
+
+      for (const pair of pairs) {
+        await Promise.all([
+          tokenA.connect(alice).transfer(pair.address, parseEther("1000")),
+          tokenC.connect(alice).transfer(pair.address, parseTokenC("1000")),
+        ]);
+
+        await pair.mint(alice.address);
+
+        for (const [tokenOut, amountOut] of [
+          [tokenC, BigNumber.from(1)],
+          [tokenC, parseTokenC("10")],
+          [tokenA, parseEther("1")],
+          [tokenA, parseEther("500")],
+          [tokenC, parseTokenC("600")],
+        ] as const) {
+          const tokenIn = tokenOut === tokenA ? tokenC : tokenA;
+
+          const amountIn = await pair.getAmountIn(tokenOut.address, amountOut);
+
+          // The exact amount in returns at least the amount out
+          expect(
+            (await pair.getAmountOut(tokenIn.address, amountIn)).gte(amountOut)
+          ).to.be.equal(true);
+
+          await tokenIn.connect(alice).transfer(pair.address, amountIn);
+
+          await expect(
+            pair
+              .connect(alice)
+              .swap(
+                sortedToken0 === tokenOut.address ? amountOut : 0,
+                sortedToken0 === tokenOut.address ? 0 : amountOut,
+                alice.address,
+                []
+              )
+          ).to.emit(pair, "Swap");
+        }
+      }
+    });
+  });
+
   describe("function: swap", () => {
     it("reverts do not wish to get any tokens", async () => {
       await expect(volatilePair.swap(0, 0, owner.address, [])).to.revertedWith(
@@ -1468,6 +2234,68 @@ describe("Pair", () => {
       ]);
     });
 
+    it("charges the swap fee set by the governor of the factory", async () => {
+      await Promise.all([
+        tokenA
+          .connect(alice)
+          .transfer(volatilePair.address, parseEther("1000")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("500")),
+      ]);
+
+      await volatilePair.mint(alice.address);
+
+      const amountOut = await volatilePair.getAmountOut(
+        tokenA.address,
+        parseEther("10")
+      );
+
+      await factory.connect(owner).setPairSwapFee(volatilePair.address, 0);
+
+      const amountOutWithoutFee = await volatilePair.getAmountOut(
+        tokenA.address,
+        parseEther("10")
+      );
+
+      expect(amountOutWithoutFee.gt(amountOut)).to.be.equal(true);
+
+      await factory
+        .connect(owner)
+        .setPairSwapFee(volatilePair.address, parseEther("0.01"));
+
+      await tokenA
+        .connect(alice)
+        .transfer(volatilePair.address, parseEther("10"));
+
+      const [sortedToken0] = await helper.sortTokens(
+        tokenA.address,
+        tokenB.address
+      );
+
+      // The quote of the old fee is too high for the new fee
+      const amount0Out = sortedToken0 === tokenA.address ? 0 : amountOut;
+      const amount1Out = sortedToken0 === tokenA.address ? amountOut : 0;
+
+      await expect(
+        volatilePair.swap(amount0Out, amount1Out, alice.address, [])
+      ).to.revertedWith("Pair__K()");
+
+      const newAmountOut = await volatilePair.getAmountOut(
+        tokenA.address,
+        parseEther("10")
+      );
+
+      expect(newAmountOut.lt(amountOut)).to.be.equal(true);
+
+      await expect(
+        volatilePair.swap(
+          sortedToken0 === tokenA.address ? 0 : newAmountOut,
+          sortedToken0 === tokenA.address ? newAmountOut : 0,
+          alice.address,
+          []
+        )
+      ).to.emit(volatilePair, "Swap");
+    });
+
     it("allows for flash loans", async () => {
       await Promise.all([
         tokenA
@@ -0,0 +1,92 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Factory, ERC20, Pair } from "../typechain";
+
+import { getPermitDomain, signPermit } from "../lib/permit";
+
+import { multiDeploy } from "./utils";
+
+const { parseEther } = ethers.utils;
+
+describe("Permit", () => {
+  let pair: Pair;
+
+  let bob: SignerWithAddress;
+
+  let deadline: number;
+
+  beforeEach(async () => {
+    let factory: Factory;
+    let tokenA: ERC20;
+    let tokenB: ERC20;
+
+    [[, , bob], [factory, tokenA, tokenB]] = await Promise.all([
+      ethers.getSigners(),
+      multiDeploy(
+        ["Factory", "ERC20", "ERC20"],
+        [[], ["TokenA", "TA"], ["TokenB", "TB"]]
+      ),
+    ]);
+
+    await factory.createPair(tokenA.address, tokenB.address, true);
+
+    pair = (await ethers.getContractAt(
+      "Pair",
+      await factory.getPair(tokenA.address, tokenB.address, true)
+    )) as Pair;
+
+    deadline = (await ethers.provider.getBlock("latest")).timestamp + 1000;
+  });
+
+  it("matches the domain separator of the pair", async () => {
+    const domain = await getPermitDomain(pair);
+
+    expect(domain).to.be.deep.equal({
+      name: await pair.name(),
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: pair.address,
+    });
+    expect(ethers.utils._TypedDataEncoder.hashDomain(domain)).to.be.equal(
+      await pair.DOMAIN_SEPARATOR()
+    );
+  });
+
+  it("signs with any ethers signer and follows the nonce", async () => {
+    // Not one of the Hardhat accounts
+    const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+
+    for (const value of [parseEther("10"), parseEther("20")]) {
+      const permit = await signPermit(
+        wallet,
+        pair,
+        bob.address,
+        value,
+        deadline
+      );
+
+      await expect(
+        pair
+          .connect(bob)
+          .permit(
+            permit.owner,
+            permit.spender,
+            permit.value,
+            permit.deadline,
+            permit.v,
+            permit.r,
+            permit.s
+          )
+      )
+        .to.emit(pair, "Approval")
+        .withArgs(wallet.address, bob.address, value);
+    }
+
+    expect(await pair.nonces(wallet.address)).to.be.equal(2);
+    expect(await pair.allowance(wallet.address, bob.address)).to.be.equal(
+      parseEther("20")
+    );
+  });
+});
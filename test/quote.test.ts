@@ -0,0 +1,147 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { ethers } from "hardhat";
+
+import { Factory, Pair } from "../typechain";
+
+import { getAmountIn, getAmountOut } from "../lib/quote";
+
+import { deploy, makeRandom, multiDeploy } from "./utils";
+
+// Change it to reproduce a failing run.
+const SEED = 20221019;
+
+const random = makeRandom(SEED);
+
+// Random number of units between 10 ** minExp and 10 ** maxExp scaled to `decimals`.
+const randomAmount = (decimals: number, minExp: number, maxExp: number) => {
+  const exp = minExp + random() * (maxExp - minExp);
+  const units = BigNumber.from(Math.floor(10 ** (exp - Math.floor(exp)) * 1e6));
+  const shift = Math.floor(exp) + decimals - 6;
+
+  return shift >= 0
+    ? units.mul(BigNumber.from(10).pow(shift))
+    : units.div(BigNumber.from(10).pow(-shift));
+};
+
+const TOKENS: ReadonlyArray<[string, string]> = [
+  ["ERC20", "ERC20"],
+  ["ERC20", "ERC20Small"],
+  ["ERC20Small", "ERC20Small"],
+];
+
+const DECIMALS: Record<string, number> = { ERC20: 18, ERC20Small: 6 };
+
+describe("Quote", () => {
+  let factory: Factory;
+  let alice: SignerWithAddress;
+
+  beforeEach(async () => {
+    [[, alice], factory] = await Promise.all([
+      ethers.getSigners(),
+      deploy("Factory"),
+    ]);
+  });
+
+  for (const stable of [true, false]) {
+    for (const [nameA, nameB] of TOKENS) {
+      it(`matches Pair.getAmountOut and Pair.getAmountIn on ${
+        stable ? "stable" : "volatile"
+      } ${nameA}/${nameB} pairs`, async () => {
+        for (let i = 0; i < 3; i++) {
+          const [tokenA, tokenB] = await multiDeploy(
+            [nameA, nameB],
+            [
+              ["TokenA", "TA"],
+              ["TokenB", "TB"],
+            ]
+          );
+
+          await factory.createPair(tokenA.address, tokenB.address, stable);
+
+          const pair: Pair = (await ethers.getContractFactory("Pair")).attach(
+            await factory.getPair(tokenA.address, tokenB.address, stable)
+          );
+
+          const [amountA, amountB] = [
+            randomAmount(DECIMALS[nameA], 2, 9),
+            randomAmount(DECIMALS[nameB], 2, 9),
+          ];
+
+          await Promise.all([
+            tokenA.mint(pair.address, amountA),
+            tokenB.mint(pair.address, amountB),
+          ]);
+
+          await pair.connect(alice).mint(alice.address);
+
+          const metadata = await pair.metadata();
+
+          for (const [tokenIn, decimals] of [
+            [tokenA.address, DECIMALS[nameA]],
+            [tokenB.address, DECIMALS[nameB]],
+          ] as const) {
+            const amounts = [
+              BigNumber.from(0),
+              BigNumber.from(1),
+              ...Array.from({ length: 6 }, () =>
+                randomAmount(decimals, -3, 10)
+              ),
+            ];
+
+            for (const amountIn of amounts) {
+              const onChain = await pair
+                .getAmountOut(tokenIn, amountIn)
+                .catch(() => null);
+
+              let offChain: BigNumber | null;
+
+              try {
+                offChain = getAmountOut(metadata, tokenIn, amountIn);
+              } catch (error) {
+                offChain = null;
+              }
+
+              expect(
+                offChain?.toString(),
+                `seed ${SEED}: ${amountIn} in with reserves ${metadata.r0}/${metadata.r1}`
+              ).to.be.equal(onChain?.toString());
+            }
+          }
+
+          for (const [tokenOut, decimals] of [
+            [tokenA.address, DECIMALS[nameA]],
+            [tokenB.address, DECIMALS[nameB]],
+          ] as const) {
+            // Some of them are above the reserves, so both sides throw
+            const amounts = [
+              BigNumber.from(0),
+              BigNumber.from(1),
+              ...Array.from({ length: 6 }, () => randomAmount(decimals, -3, 9)),
+            ];
+
+            for (const amountOut of amounts) {
+              const onChain = await pair
+                .getAmountIn(tokenOut, amountOut)
+                .catch(() => null);
+
+              let offChain: BigNumber | null;
+
+              try {
+                offChain = getAmountIn(metadata, tokenOut, amountOut);
+              } catch (error) {
+                offChain = null;
+              }
+
+              expect(
+                offChain?.toString(),
+                `seed ${SEED}: ${amountOut} out with reserves ${metadata.r0}/${metadata.r1}`
+              ).to.be.equal(onChain?.toString());
+            }
+          }
+        }
+      });
+    }
+  }
+}).timeout(50_000);
@@ -1,5 +1,6 @@
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { expect } from "chai";
+import { BigNumber } from "ethers";
 
 import { ethers, network } from "hardhat";
 
@@ -7,22 +8,16 @@ import {
   Factory,
   Router,
   ERC20,
+  ERC20FeeOnTransfer,
   Pair,
   BrokenBNBReceiver,
   WNT,
 } from "../typechain";
 
-import {
-  deploy,
-  min,
-  multiDeploy,
-  quoteLiquidity,
-  sqrt,
-  getPairDomainSeparator,
-  getECSign,
-  getPairDigest,
-  PRIVATE_KEYS,
-} from "./utils";
+import { signRouterPermit } from "../lib/permit";
+import { PoolType } from "../lib/routes";
+
+import { deploy, min, multiDeploy, quoteLiquidity, sqrt } from "./utils";
 
 const { parseEther } = ethers.utils;
 
@@ -344,7 +339,11 @@ describe("Router", () => {
         ),
         expect(
           router.getAmountsOut(0, [
-            { from: tokenA.address, to: tokenB.address },
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Auto,
+            },
           ])
         ).to.revertedWith("Router__ZeroAmount()"),
       ]);
@@ -352,7 +351,7 @@ describe("Router", () => {
 
     it("returns first amount if the pair does not exist", async () => {
       const amounts = await router.getAmountsOut(parseEther("10"), [
-        { from: alice.address, to: tokenA.address },
+        { from: alice.address, to: tokenA.address, poolType: PoolType.Auto },
       ]);
 
       expect(amounts.length).to.be.equal(2);
@@ -420,9 +419,9 @@ describe("Router", () => {
       );
 
       const route = [
-        { from: tokenA.address, to: tokenB.address },
-        { from: tokenB.address, to: tokenC.address },
-        { from: tokenC.address, to: tokenA.address },
+        { from: tokenA.address, to: tokenB.address, poolType: PoolType.Auto },
+        { from: tokenB.address, to: tokenC.address, poolType: PoolType.Auto },
+        { from: tokenC.address, to: tokenA.address, poolType: PoolType.Auto },
       ];
 
       const [amountIn, firstTrade, secondTrade, thirdTrade] =
@@ -440,6 +439,226 @@ describe("Router", () => {
       expect(thirdTrade.amount).to.be.equal(thirdTradeOutput);
       expect(thirdTrade.stable).to.be.equal(true);
     });
+
+    it("quotes the pool type of each hop", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, true);
+
+      const sPairAB = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, true)
+      );
+
+      await Promise.all([
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("100")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("100")),
+        tokenA.connect(alice).transfer(sPairAB.address, parseEther("100")),
+        tokenB.connect(alice).transfer(sPairAB.address, parseEther("100")),
+      ]);
+
+      await Promise.all([
+        volatilePair.mint(alice.address),
+        sPairAB.mint(alice.address),
+      ]);
+
+      const [stableOutput, volatileOutput] = await Promise.all([
+        sPairAB.getAmountOut(tokenA.address, parseEther("10")),
+        volatilePair.getAmountOut(tokenA.address, parseEther("10")),
+      ]);
+
+      // The stable pair quotes more, so it is only skipped when the hop forces the volatile pair
+      expect(stableOutput.gt(volatileOutput)).to.be.equal(true);
+
+      const [[, autoTrade], [, stableTrade], [, volatileTrade]] =
+        await Promise.all(
+          [PoolType.Auto, PoolType.Stable, PoolType.Volatile].map((poolType) =>
+            router.getAmountsOut(parseEther("10"), [
+              { from: tokenA.address, to: tokenB.address, poolType },
+            ])
+          )
+        );
+
+      expect(autoTrade.amount).to.be.equal(stableOutput);
+      expect(autoTrade.stable).to.be.equal(true);
+
+      expect(stableTrade.amount).to.be.equal(stableOutput);
+      expect(stableTrade.stable).to.be.equal(true);
+
+      expect(volatileTrade.amount).to.be.equal(volatileOutput);
+      expect(volatileTrade.stable).to.be.equal(false);
+    });
+
+    it("reverts if the pool type of a hop does not exist", async () => {
+      await expect(
+        router.getAmountsOut(parseEther("10"), [
+          {
+            from: tokenA.address,
+            to: tokenB.address,
+            poolType: PoolType.Stable,
+          },
+        ])
+      ).to.revertedWith("Router__PairNotFound()");
+    });
+  });
+
+  describe("function: getAmountsIn", () => {
+    it("reverts if route is invalid", async () => {
+      await Promise.all([
+        expect(router.getAmountsIn(0, [])).to.revertedWith(
+          "Router__InvalidPath()"
+        ),
+        expect(
+          router.getAmountsIn(0, [
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Auto,
+            },
+          ])
+        ).to.revertedWith("Router__ZeroAmount()"),
+        expect(
+          router.getAmountsIn(parseEther("1"), [
+            {
+              from: alice.address,
+              to: tokenA.address,
+              poolType: PoolType.Auto,
+            },
+          ])
+        ).to.revertedWith("Router__NoLiquidity()"),
+      ]);
+    });
+
+    it("returns the cheapest amount in on a specific route", async () => {
+      await Promise.all([
+        factory.createPair(tokenB.address, tokenC.address, false),
+        factory.createPair(tokenA.address, tokenC.address, false),
+        factory.createPair(tokenA.address, tokenC.address, true),
+      ]);
+
+      const [vPairBCAddress, vPairACAddress, sPairACAddress] =
+        await Promise.all([
+          factory.getPair(tokenB.address, tokenC.address, false),
+          factory.getPair(tokenA.address, tokenC.address, false),
+          factory.getPair(tokenA.address, tokenC.address, true),
+        ]);
+
+      const pairContractFactory = await ethers.getContractFactory("Pair");
+
+      const [vPairBC, vPairAC, sPairAC] = [
+        pairContractFactory.attach(vPairBCAddress),
+        pairContractFactory.attach(vPairACAddress),
+        pairContractFactory.attach(sPairACAddress),
+      ];
+
+      await Promise.all([
+        tokenA
+          .connect(alice)
+          .transfer(volatilePair.address, parseEther("1000")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("500")),
+        tokenB.connect(alice).transfer(vPairBC.address, parseEther("300")),
+        tokenC.connect(alice).transfer(vPairBC.address, parseEther("500")),
+        tokenC.connect(alice).transfer(vPairAC.address, parseEther("1000")),
+        tokenA.connect(alice).transfer(vPairAC.address, parseEther("300")),
+        tokenC.connect(alice).transfer(sPairAC.address, parseEther("400")),
+        tokenA.connect(alice).transfer(sPairAC.address, parseEther("400")),
+      ]);
+
+      await Promise.all([
+        volatilePair.mint(alice.address),
+        vPairBC.mint(alice.address),
+        vPairAC.mint(alice.address),
+        sPairAC.mint(alice.address),
+      ]);
+
+      // The stable pair sells token A for less token C
+      const thirdTradeInput = await sPairAC.getAmountIn(
+        tokenA.address,
+        parseEther("10")
+      );
+
+      expect(
+        thirdTradeInput.lt(
+          await vPairAC.getAmountIn(tokenA.address, parseEther("10"))
+        )
+      ).to.be.equal(true);
+
+      const secondTradeInput = await vPairBC.getAmountIn(
+        tokenC.address,
+        thirdTradeInput
+      );
+
+      const firstTradeInput = await volatilePair.getAmountIn(
+        tokenB.address,
+        secondTradeInput
+      );
+
+      const route = [
+        { from: tokenA.address, to: tokenB.address, poolType: PoolType.Auto },
+        { from: tokenB.address, to: tokenC.address, poolType: PoolType.Auto },
+        { from: tokenC.address, to: tokenA.address, poolType: PoolType.Auto },
+      ];
+
+      const [amountIn, firstTrade, secondTrade, thirdTrade] =
+        await router.getAmountsIn(parseEther("10"), route);
+
+      expect(amountIn.amount).to.be.equal(firstTradeInput);
+      expect(amountIn.stable).to.be.equal(false);
+
+      expect(firstTrade.amount).to.be.equal(secondTradeInput);
+      expect(firstTrade.stable).to.be.equal(false);
+
+      expect(secondTrade.amount).to.be.equal(thirdTradeInput);
+      expect(secondTrade.stable).to.be.equal(false);
+
+      expect(thirdTrade.amount).to.be.equal(parseEther("10"));
+      expect(thirdTrade.stable).to.be.equal(true);
+    });
+
+    it("quotes the pool type of each hop", async () => {
+      await factory.createPair(tokenA.address, tokenB.address, true);
+
+      const sPairAB = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, true)
+      );
+
+      await Promise.all([
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("100")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("100")),
+        tokenA.connect(alice).transfer(sPairAB.address, parseEther("100")),
+        tokenB.connect(alice).transfer(sPairAB.address, parseEther("100")),
+      ]);
+
+      await Promise.all([
+        volatilePair.mint(alice.address),
+        sPairAB.mint(alice.address),
+      ]);
+
+      const [stableInput, volatileInput] = await Promise.all([
+        sPairAB.getAmountIn(tokenB.address, parseEther("10")),
+        volatilePair.getAmountIn(tokenB.address, parseEther("10")),
+      ]);
+
+      expect(stableInput.lt(volatileInput)).to.be.equal(true);
+
+      const [[volatileTrade], [stableTrade]] = await Promise.all(
+        [PoolType.Volatile, PoolType.Stable].map((poolType) =>
+          router.getAmountsIn(parseEther("10"), [
+            { from: tokenA.address, to: tokenB.address, poolType },
+          ])
+        )
+      );
+
+      expect(volatileTrade.amount).to.be.equal(volatileInput);
+      expect(stableTrade.amount).to.be.equal(stableInput);
+
+      await expect(
+        router.getAmountsIn(parseEther("10"), [
+          {
+            from: tokenA.address,
+            to: tokenC.address,
+            poolType: PoolType.Volatile,
+          },
+        ])
+      ).to.revertedWith("Router__PairNotFound()");
+    });
   });
 
   it("checks if it is a pair", async () => {
@@ -1145,13 +1364,6 @@ describe("Router", () => {
       // make sure we have no allowance
       await volatilePair.connect(alice).approve(router.address, 0);
 
-      const chainId = network.config.chainId || 0;
-      const name = await volatilePair.name();
-      const domainSeparator = getPairDomainSeparator(
-        volatilePair.address,
-        name,
-        chainId
-      );
       const blockTimestamp = (
         await ethers.provider.getBlock(await ethers.provider.getBlockNumber())
       ).timestamp;
@@ -1176,17 +1388,15 @@ describe("Router", () => {
         .mul(parseEther("450"))
         .div(totalSupply);
 
-      const digest = getPairDigest(
-        domainSeparator,
-        alice.address,
+      const { v, r, s } = await signRouterPermit(
+        alice,
+        volatilePair,
         router.address,
         aliceBalance.div(3),
-        0,
-        blockTimestamp * 2
+        blockTimestamp * 2,
+        false
       );
 
-      const { v, r, s } = getECSign(PRIVATE_KEYS[1], digest);
-
       await expect(
         router
           .connect(alice)
@@ -1219,13 +1429,6 @@ describe("Router", () => {
       // make sure we have no allowance
       await volatilePair.connect(alice).approve(router.address, 0);
 
-      const chainId = network.config.chainId || 0;
-      const name = await volatilePair.name();
-      const domainSeparator = getPairDomainSeparator(
-        volatilePair.address,
-        name,
-        chainId
-      );
       const blockTimestamp = (
         await ethers.provider.getBlock(await ethers.provider.getBlockNumber())
       ).timestamp;
@@ -1250,17 +1453,15 @@ describe("Router", () => {
         .mul(parseEther("450"))
         .div(totalSupply);
 
-      const digest = getPairDigest(
-        domainSeparator,
-        alice.address,
+      const { v, r, s } = await signRouterPermit(
+        alice,
+        volatilePair,
         router.address,
-        ethers.constants.MaxUint256,
-        0,
-        blockTimestamp * 2
+        aliceBalance.div(3),
+        blockTimestamp * 2,
+        true
       );
 
-      const { v, r, s } = getECSign(PRIVATE_KEYS[1], digest);
-
       await expect(
         router
           .connect(alice)
@@ -1297,14 +1498,6 @@ describe("Router", () => {
       // make sure we have no allowance
       await pair.connect(alice).approve(router.address, 0);
 
-      const chainId = network.config.chainId || 0;
-      const name = await pair.name();
-      const domainSeparator = getPairDomainSeparator(
-        pair.address,
-        name,
-        chainId
-      );
-
       const blockTimestamp = (
         await ethers.provider.getBlock(await ethers.provider.getBlockNumber())
       ).timestamp;
@@ -1329,17 +1522,15 @@ describe("Router", () => {
         .mul(parseEther("12"))
         .div(totalSupply);
 
-      const digest = getPairDigest(
-        domainSeparator,
-        alice.address,
+      const { v, r, s } = await signRouterPermit(
+        alice,
+        pair,
         router.address,
         aliceBalance.div(3),
-        0,
-        blockTimestamp * 2
+        blockTimestamp * 2,
+        false
       );
 
-      const { v, r, s } = getECSign(PRIVATE_KEYS[1], digest);
-
       const aliceBNBBalance = await alice.getBalance();
 
       await expect(
@@ -1380,14 +1571,6 @@ describe("Router", () => {
       // make sure we have no allowance
       await pair.connect(alice).approve(router.address, 0);
 
-      const chainId = network.config.chainId || 0;
-      const name = await pair.name();
-      const domainSeparator = getPairDomainSeparator(
-        pair.address,
-        name,
-        chainId
-      );
-
       const blockTimestamp = (
         await ethers.provider.getBlock(await ethers.provider.getBlockNumber())
       ).timestamp;
@@ -1412,17 +1595,15 @@ describe("Router", () => {
         .mul(parseEther("12"))
         .div(totalSupply);
 
-      const digest = getPairDigest(
-        domainSeparator,
-        alice.address,
+      const { v, r, s } = await signRouterPermit(
+        alice,
+        pair,
         router.address,
-        ethers.constants.MaxUint256,
-        0,
-        blockTimestamp * 2
+        aliceBalance.div(3),
+        blockTimestamp * 2,
+        true
       );
 
-      const { v, r, s } = getECSign(PRIVATE_KEYS[1], digest);
-
       const aliceBNBBalance = await alice.getBalance();
 
       await expect(
@@ -1482,7 +1663,13 @@ describe("Router", () => {
         router.swapExactTokensForTokens(
           parseEther("3"),
           firstSwapOutput.add(parseEther("0.1")),
-          [{ from: tokenA.address, to: tokenB.address }],
+          [
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Auto,
+            },
+          ],
           alice.address,
           ethers.constants.MaxUint256
         )
@@ -1541,8 +1728,8 @@ describe("Router", () => {
           parseEther("2"),
           secondSwapOutput.sub(parseEther("0.1")),
           [
-            { from: tokenA.address, to: wnt.address },
-            { from: wnt.address, to: tokenB.address },
+            { from: tokenA.address, to: wnt.address, poolType: PoolType.Auto },
+            { from: wnt.address, to: tokenB.address, poolType: PoolType.Auto },
           ],
           alice.address,
           ethers.constants.MaxUint256
@@ -1551,6 +1738,53 @@ describe("Router", () => {
         .to.emit(tokenB, "Transfer")
         .withArgs(swntTokenB.address, alice.address, secondSwapOutput);
     });
+
+    it("swaps through the pool type of each hop", async () => {
+      const [pairFactory] = await Promise.all([
+        ethers.getContractFactory("Pair"),
+        factory.createPair(tokenA.address, tokenB.address, true),
+      ]);
+
+      const sPairAB = pairFactory.attach(
+        await factory.getPair(tokenA.address, tokenB.address, true)
+      );
+
+      await Promise.all([
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("100")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("100")),
+        tokenA.connect(alice).transfer(sPairAB.address, parseEther("100")),
+        tokenB.connect(alice).transfer(sPairAB.address, parseEther("100")),
+      ]);
+
+      await Promise.all([
+        volatilePair.mint(alice.address),
+        sPairAB.mint(alice.address),
+      ]);
+
+      // The router would pick the stable pair on its own
+      const amountOut = await volatilePair.getAmountOut(
+        tokenA.address,
+        parseEther("2")
+      );
+
+      await expect(
+        router.connect(alice).swapExactTokensForTokens(
+          parseEther("2"),
+          amountOut,
+          [
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Volatile,
+            },
+          ],
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      )
+        .to.emit(tokenB, "Transfer")
+        .withArgs(volatilePair.address, alice.address, amountOut);
+    });
   });
 
   describe("function: swapExactNativeTokenForTokens", () => {
@@ -1564,7 +1798,7 @@ describe("Router", () => {
       await expect(
         router.swapExactNativeTokenForTokens(
           0,
-          [{ from: tokenA.address, to: wnt.address }],
+          [{ from: tokenA.address, to: wnt.address, poolType: PoolType.Auto }],
           alice.address,
           ethers.constants.MaxUint256
         )
@@ -1618,8 +1852,12 @@ describe("Router", () => {
         router.connect(alice).swapExactNativeTokenForTokens(
           secondSwapOutput,
           [
-            { from: wnt.address, to: tokenA.address },
-            { from: tokenA.address, to: tokenB.address },
+            { from: wnt.address, to: tokenA.address, poolType: PoolType.Auto },
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Auto,
+            },
           ],
           alice.address,
           ethers.constants.MaxUint256,
@@ -1671,8 +1909,12 @@ describe("Router", () => {
         router.connect(alice).swapExactNativeTokenForTokens(
           secondSwapOutput.add(parseEther("0.1")),
           [
-            { from: wnt.address, to: tokenA.address },
-            { from: tokenA.address, to: tokenB.address },
+            { from: wnt.address, to: tokenA.address, poolType: PoolType.Auto },
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Auto,
+            },
           ],
           alice.address,
           ethers.constants.MaxUint256,
@@ -1694,7 +1936,7 @@ describe("Router", () => {
         router.swapExactTokensForNativeToken(
           0,
           0,
-          [{ from: wnt.address, to: tokenA.address }],
+          [{ from: wnt.address, to: tokenA.address, poolType: PoolType.Auto }],
           alice.address,
           ethers.constants.MaxUint256
         )
@@ -1743,8 +1985,12 @@ describe("Router", () => {
           parseEther("2"),
           secondSwapOutput.add(parseEther("0.1")),
           [
-            { from: tokenB.address, to: tokenA.address },
-            { from: tokenA.address, to: wnt.address },
+            {
+              from: tokenB.address,
+              to: tokenA.address,
+              poolType: PoolType.Auto,
+            },
+            { from: tokenA.address, to: wnt.address, poolType: PoolType.Auto },
           ],
           alice.address,
           ethers.constants.MaxUint256
@@ -1802,8 +2048,12 @@ describe("Router", () => {
           parseEther("2"),
           secondSwapOutput,
           [
-            { from: tokenB.address, to: tokenA.address },
-            { from: tokenA.address, to: wnt.address },
+            {
+              from: tokenB.address,
+              to: tokenA.address,
+              poolType: PoolType.Auto,
+            },
+            { from: tokenA.address, to: wnt.address, poolType: PoolType.Auto },
           ],
           alice.address,
           ethers.constants.MaxUint256
@@ -1816,4 +2066,971 @@ describe("Router", () => {
       );
     });
   });
+
+  describe("function: swapTokensForExactTokens", () => {
+    it("reverts it is past the deadline", async () => {
+      await expect(
+        router.swapTokensForExactTokens(0, 0, [], alice.address, 0)
+      ).to.revertedWith("Router__Expired()");
+    });
+
+    it("reverts if the amount in is higher than the max", async () => {
+      await Promise.all([
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("890")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("450")),
+      ]);
+
+      await volatilePair.mint(alice.address);
+
+      const amountIn = await volatilePair.getAmountIn(
+        tokenB.address,
+        parseEther("3")
+      );
+
+      await expect(
+        router.connect(alice).swapTokensForExactTokens(
+          parseEther("3"),
+          amountIn.sub(1),
+          [
+            {
+              from: tokenA.address,
+              to: tokenB.address,
+              poolType: PoolType.Auto,
+            },
+          ],
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      ).to.revertedWith("Router__ExcessiveInput()");
+    });
+
+    it("buys the exact amount at the best possible price", async () => {
+      const [pairFactory] = await Promise.all([
+        ethers.getContractFactory("Pair"),
+        factory.createPair(wnt.address, tokenA.address, false),
+        factory.createPair(wnt.address, tokenB.address, false),
+        factory.createPair(wnt.address, tokenB.address, true),
+        wnt.connect(alice).deposit({ value: parseEther("30") }),
+      ]);
+
+      const [vwntTokenAAddress, vwntTokenBAddress, swntTokenBAddress] =
+        await Promise.all([
+          factory.getPair(wnt.address, tokenA.address, false),
+          factory.getPair(wnt.address, tokenB.address, false),
+          factory.getPair(wnt.address, tokenB.address, true),
+        ]);
+
+      const [vwntTokenA, vwntTokenB, swntTokenB] = [
+        pairFactory.attach(vwntTokenAAddress),
+        pairFactory.attach(vwntTokenBAddress),
+        pairFactory.attach(swntTokenBAddress),
+      ];
+
+      await Promise.all([
+        wnt.connect(alice).transfer(vwntTokenAAddress, parseEther("10")),
+        tokenA.connect(alice).transfer(vwntTokenAAddress, parseEther("25")),
+        wnt.connect(alice).transfer(vwntTokenBAddress, parseEther("10")),
+        tokenB.connect(alice).transfer(vwntTokenBAddress, parseEther("6")),
+        wnt.connect(alice).transfer(swntTokenBAddress, parseEther("10")),
+        tokenB.connect(alice).transfer(swntTokenBAddress, parseEther("10")),
+      ]);
+
+      await Promise.all([
+        vwntTokenA.mint(alice.address),
+        vwntTokenB.mint(alice.address),
+        swntTokenB.mint(alice.address),
+      ]);
+
+      const secondSwapInput = await swntTokenB.getAmountIn(
+        tokenB.address,
+        parseEther("1")
+      );
+
+      const firstSwapInput = await vwntTokenA.getAmountIn(
+        wnt.address,
+        secondSwapInput
+      );
+
+      const aliceBalance = await tokenA.balanceOf(alice.address);
+
+      await expect(
+        router.connect(alice).swapTokensForExactTokens(
+          parseEther("1"),
+          firstSwapInput,
+          [
+            { from: tokenA.address, to: wnt.address, poolType: PoolType.Auto },
+            { from: wnt.address, to: tokenB.address, poolType: PoolType.Auto },
+          ],
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      )
+        .to.emit(tokenB, "Transfer")
+        .withArgs(swntTokenB.address, alice.address, parseEther("1"));
+
+      expect(await tokenA.balanceOf(alice.address)).to.be.equal(
+        aliceBalance.sub(firstSwapInput)
+      );
+    });
+  });
+
+  describe("function: swapNativeTokenForExactTokens", () => {
+    it("reverts if  the deadline has passed", async () => {
+      await expect(
+        router.swapNativeTokenForExactTokens(0, [], alice.address, 0)
+      ).to.revertedWith("Router__Expired()");
+    });
+
+    it("reverts if first from is not wnt", async () => {
+      await expect(
+        router.swapNativeTokenForExactTokens(
+          0,
+          [{ from: tokenA.address, to: wnt.address, poolType: PoolType.Auto }],
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      ).to.revertedWith("Router__InvalidRoute()");
+    });
+
+    it("buys the exact amount and refunds the unused native token", async () => {
+      const vwntTokenA = await getTokenAWNTContract();
+
+      await Promise.all([
+        wnt.connect(alice).transfer(vwntTokenA.address, parseEther("10")),
+        tokenA.connect(alice).transfer(vwntTokenA.address, parseEther("25")),
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("25")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("50")),
+      ]);
+
+      await Promise.all([
+        vwntTokenA.mint(alice.address),
+        volatilePair.mint(alice.address),
+      ]);
+
+      const secondSwapInput = await volatilePair.getAmountIn(
+        tokenB.address,
+        parseEther("3")
+      );
+
+      const firstSwapInput = await vwntTokenA.getAmountIn(
+        tokenA.address,
+        secondSwapInput
+      );
+
+      const route = [
+        { from: wnt.address, to: tokenA.address, poolType: PoolType.Auto },
+        { from: tokenA.address, to: tokenB.address, poolType: PoolType.Auto },
+      ];
+
+      await expect(
+        router
+          .connect(alice)
+          .swapNativeTokenForExactTokens(
+            parseEther("3"),
+            route,
+            alice.address,
+            ethers.constants.MaxUint256,
+            { value: firstSwapInput.sub(1) }
+          )
+      ).to.revertedWith("Router__ExcessiveInput()");
+
+      const tokenBBalance = await tokenB.balanceOf(alice.address);
+
+      // Only the amount in leaves the wallet of alice. The router keeps nothing
+      await expect(() =>
+        router
+          .connect(alice)
+          .swapNativeTokenForExactTokens(
+            parseEther("3"),
+            route,
+            alice.address,
+            ethers.constants.MaxUint256,
+            { value: firstSwapInput.add(parseEther("1")) }
+          )
+      ).to.changeEtherBalances([alice, router], [firstSwapInput.mul(-1), 0]);
+
+      expect(await tokenB.balanceOf(alice.address)).to.be.equal(
+        tokenBBalance.add(parseEther("3"))
+      );
+    });
+  });
+
+  describe("function: swapTokensForExactNativeToken", () => {
+    it("reverts if  the deadline has passed", async () => {
+      await expect(
+        router.swapTokensForExactNativeToken(0, 0, [], alice.address, 0)
+      ).to.revertedWith("Router__Expired()");
+    });
+
+    it("reverts if the route does not end in wnt", async () => {
+      await expect(
+        router.swapTokensForExactNativeToken(
+          0,
+          0,
+          [{ from: wnt.address, to: tokenA.address, poolType: PoolType.Auto }],
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      ).to.revertedWith("Router__InvalidRoute()");
+    });
+
+    it("sends the exact amount of native token", async () => {
+      const vwntTokenA = await getTokenAWNTContract();
+
+      await Promise.all([
+        wnt.connect(alice).transfer(vwntTokenA.address, parseEther("10")),
+        tokenA.connect(alice).transfer(vwntTokenA.address, parseEther("25")),
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("25")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("50")),
+      ]);
+
+      await Promise.all([
+        vwntTokenA.mint(alice.address),
+        volatilePair.mint(alice.address),
+      ]);
+
+      const secondSwapInput = await vwntTokenA.getAmountIn(
+        wnt.address,
+        parseEther("1")
+      );
+
+      const firstSwapInput = await volatilePair.getAmountIn(
+        tokenA.address,
+        secondSwapInput
+      );
+
+      const route = [
+        { from: tokenB.address, to: tokenA.address, poolType: PoolType.Auto },
+        { from: tokenA.address, to: wnt.address, poolType: PoolType.Auto },
+      ];
+
+      await expect(
+        router
+          .connect(alice)
+          .swapTokensForExactNativeToken(
+            parseEther("1"),
+            firstSwapInput.sub(1),
+            route,
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith("Router__ExcessiveInput()");
+
+      const tokenBBalance = await tokenB.balanceOf(alice.address);
+
+      await expect(() =>
+        router
+          .connect(alice)
+          .swapTokensForExactNativeToken(
+            parseEther("1"),
+            firstSwapInput,
+            route,
+            owner.address,
+            ethers.constants.MaxUint256
+          )
+      ).to.changeEtherBalance(owner, parseEther("1"));
+
+      expect(await tokenB.balanceOf(alice.address)).to.be.equal(
+        tokenBBalance.sub(firstSwapInput)
+      );
+    });
+  });
+
+  describe("split swaps", () => {
+    let stablePair: Pair;
+
+    beforeEach(async () => {
+      await factory.createPair(tokenA.address, tokenB.address, true);
+
+      stablePair = (await ethers.getContractFactory("Pair")).attach(
+        await factory.getPair(tokenA.address, tokenB.address, true)
+      );
+
+      await Promise.all([
+        tokenA.connect(alice).transfer(volatilePair.address, parseEther("200")),
+        tokenB.connect(alice).transfer(volatilePair.address, parseEther("200")),
+        tokenA.connect(alice).transfer(stablePair.address, parseEther("100")),
+        tokenB.connect(alice).transfer(stablePair.address, parseEther("100")),
+      ]);
+
+      await Promise.all([
+        volatilePair.mint(alice.address),
+        stablePair.mint(alice.address),
+      ]);
+    });
+
+    describe("function: getSplitAmountOut", () => {
+      it("reverts if the amount is zero", async () => {
+        await expect(
+          router.getSplitAmountOut(0, tokenA.address, tokenB.address)
+        ).to.revertedWith("Router__ZeroAmount()");
+      });
+
+      it("splits a large trade between both pairs", async () => {
+        const amountIn = parseEther("80");
+
+        const [[amountInStable, amountOut], best] = await Promise.all([
+          router.getSplitAmountOut(amountIn, tokenA.address, tokenB.address),
+          router.getAmountOut(amountIn, tokenA.address, tokenB.address),
+        ]);
+
+        expect(amountInStable.gt(0)).to.be.equal(true);
+        expect(amountInStable.lt(amountIn)).to.be.equal(true);
+        expect(amountOut.gt(best.amount)).to.be.equal(true);
+
+        const [stableOutput, volatileOutput] = await Promise.all([
+          stablePair.getAmountOut(tokenA.address, amountInStable),
+          volatilePair.getAmountOut(
+            tokenA.address,
+            amountIn.sub(amountInStable)
+          ),
+        ]);
+
+        expect(amountOut).to.be.equal(stableOutput.add(volatileOutput));
+
+        // Moving 1% of the trade to either pair lowers the amount out
+        for (const shift of [parseEther("0.8"), parseEther("-0.8")]) {
+          const [stableShifted, volatileShifted] = await Promise.all([
+            stablePair.getAmountOut(tokenA.address, amountInStable.add(shift)),
+            volatilePair.getAmountOut(
+              tokenA.address,
+              amountIn.sub(amountInStable).sub(shift)
+            ),
+          ]);
+
+          expect(stableShifted.add(volatileShifted).lt(amountOut)).to.be.equal(
+            true
+          );
+        }
+      });
+
+      it("uses a single pair if the other does not exist", async () => {
+        const [amountInStable, amountOut] = await router.getSplitAmountOut(
+          parseEther("10"),
+          tokenA.address,
+          tokenC.address
+        );
+
+        expect(amountInStable).to.be.equal(0);
+        expect(amountOut).to.be.equal(0);
+
+        await factory.createPair(tokenA.address, tokenC.address, true);
+
+        const pair = (await ethers.getContractFactory("Pair")).attach(
+          await factory.getPair(tokenA.address, tokenC.address, true)
+        );
+
+        await Promise.all([
+          tokenA.connect(alice).transfer(pair.address, parseEther("100")),
+          tokenC.connect(alice).transfer(pair.address, parseEther("100")),
+        ]);
+
+        await pair.mint(alice.address);
+
+        const [stableAmountIn, stableAmountOut] =
+          await router.getSplitAmountOut(
+            parseEther("10"),
+            tokenA.address,
+            tokenC.address
+          );
+
+        expect(stableAmountIn).to.be.equal(parseEther("10"));
+        expect(stableAmountOut).to.be.equal(
+          await pair.getAmountOut(tokenA.address, parseEther("10"))
+        );
+      });
+    });
+
+    describe("function: swapExactTokensForTokensSplit", () => {
+      it("reverts if it is past the deadline", async () => {
+        await expect(
+          router.swapExactTokensForTokensSplit(
+            0,
+            0,
+            0,
+            tokenA.address,
+            tokenB.address,
+            alice.address,
+            0
+          )
+        ).to.revertedWith("Router__Expired()");
+      });
+
+      it("reverts if the split is invalid", async () => {
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSplit(
+              parseEther("1"),
+              parseEther("2"),
+              0,
+              tokenA.address,
+              tokenB.address,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__InvalidSplit()");
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSplit(
+              parseEther("1"),
+              parseEther("0.5"),
+              0,
+              tokenA.address,
+              tokenC.address,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__PairNotFound()");
+      });
+
+      it("reverts if the amount out is below the minimum", async () => {
+        const [amountInStable, amountOut] = await router.getSplitAmountOut(
+          parseEther("80"),
+          tokenA.address,
+          tokenB.address
+        );
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSplit(
+              parseEther("80"),
+              amountInStable,
+              amountOut.add(1),
+              tokenA.address,
+              tokenB.address,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__InsufficientOutput()");
+      });
+
+      it("sells the input in both pairs", async () => {
+        const amountIn = parseEther("80");
+
+        const [amountInStable, amountOut] = await router.getSplitAmountOut(
+          amountIn,
+          tokenA.address,
+          tokenB.address
+        );
+
+        const [stableOutput, volatileOutput] = await Promise.all([
+          stablePair.getAmountOut(tokenA.address, amountInStable),
+          volatilePair.getAmountOut(
+            tokenA.address,
+            amountIn.sub(amountInStable)
+          ),
+        ]);
+
+        const balanceBefore = await tokenB.balanceOf(owner.address);
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSplit(
+              amountIn,
+              amountInStable,
+              amountOut,
+              tokenA.address,
+              tokenB.address,
+              owner.address,
+              ethers.constants.MaxUint256
+            )
+        )
+          .to.emit(tokenB, "Transfer")
+          .withArgs(stablePair.address, owner.address, stableOutput)
+          .to.emit(tokenB, "Transfer")
+          .withArgs(volatilePair.address, owner.address, volatileOutput);
+
+        expect(await tokenB.balanceOf(owner.address)).to.be.equal(
+          balanceBefore.add(amountOut)
+        );
+      });
+    });
+  });
+
+  describe("fee-on-transfer tokens", () => {
+    let feeToken: ERC20FeeOnTransfer;
+    let feePair: Pair;
+    let feeWNTPair: Pair;
+
+    // {ERC20FeeOnTransfer} keeps 1% of every transfer
+    const afterFee = (amount: BigNumber) => amount.sub(amount.div(100));
+
+    beforeEach(async () => {
+      feeToken = await deploy("ERC20FeeOnTransfer", ["Fee Token", "FT"]);
+
+      await Promise.all([
+        feeToken.mint(alice.address, parseEther("100000")),
+        feeToken
+          .connect(alice)
+          .approve(router.address, ethers.constants.MaxUint256),
+      ]);
+
+      await router
+        .connect(alice)
+        .addLiquidity(
+          feeToken.address,
+          tokenA.address,
+          false,
+          parseEther("1000"),
+          parseEther("1000"),
+          0,
+          0,
+          alice.address,
+          ethers.constants.MaxUint256
+        );
+
+      await router
+        .connect(alice)
+        .addLiquidityNativeToken(
+          feeToken.address,
+          false,
+          parseEther("1000"),
+          0,
+          0,
+          alice.address,
+          ethers.constants.MaxUint256,
+          { value: parseEther("100") }
+        );
+
+      const pairFactory = await ethers.getContractFactory("Pair");
+
+      [feePair, feeWNTPair] = [
+        pairFactory.attach(
+          await factory.getPair(feeToken.address, tokenA.address, false)
+        ),
+        pairFactory.attach(
+          await factory.getPair(feeToken.address, wnt.address, false)
+        ),
+      ];
+    });
+
+    describe("function: swapExactTokensForTokensSupportingFeeOnTransferTokens", () => {
+      it("reverts it is past the deadline", async () => {
+        await expect(
+          router.swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            0,
+            0,
+            [],
+            alice.address,
+            0
+          )
+        ).to.revertedWith("Router__Expired()");
+      });
+
+      it("swaps a fee-on-transfer token in", async () => {
+        const route = [
+          {
+            from: feeToken.address,
+            to: tokenA.address,
+            poolType: PoolType.Auto,
+          },
+        ];
+
+        // The pair receives less than the quote
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokens(
+              parseEther("10"),
+              0,
+              route,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Pair__K()");
+
+        const amountOut = await feePair.getAmountOut(
+          feeToken.address,
+          afterFee(parseEther("10"))
+        );
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              amountOut.add(1),
+              route,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__InsufficientOutput()");
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              amountOut,
+              route,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        )
+          .to.emit(tokenA, "Transfer")
+          .withArgs(feePair.address, alice.address, amountOut);
+      });
+
+      it("swaps a fee-on-transfer token out", async () => {
+        const route = [
+          {
+            from: tokenA.address,
+            to: feeToken.address,
+            poolType: PoolType.Auto,
+          },
+        ];
+
+        const amountOut = await feePair.getAmountOut(
+          tokenA.address,
+          parseEther("10")
+        );
+
+        // The slippage is checked on what alice receives
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              amountOut,
+              route,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__InsufficientOutput()");
+
+        const balance = await feeToken.balanceOf(alice.address);
+
+        await router
+          .connect(alice)
+          .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            parseEther("10"),
+            afterFee(amountOut),
+            route,
+            alice.address,
+            ethers.constants.MaxUint256
+          );
+
+        expect(await feeToken.balanceOf(alice.address)).to.be.equal(
+          balance.add(afterFee(amountOut))
+        );
+      });
+
+      it("recomputes the amount at every hop", async () => {
+        await Promise.all([
+          tokenA
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("1000")),
+          tokenB
+            .connect(alice)
+            .transfer(volatilePair.address, parseEther("1000")),
+        ]);
+
+        await volatilePair.mint(alice.address);
+
+        // tokenB -> tokenA -> feeToken -> WNT
+        const firstSwapOutput = await volatilePair.getAmountOut(
+          tokenB.address,
+          parseEther("10")
+        );
+        const secondSwapOutput = await feePair.getAmountOut(
+          tokenA.address,
+          firstSwapOutput
+        );
+        // feePair sends the tokens to feeWNTPair
+        const thirdSwapOutput = await feeWNTPair.getAmountOut(
+          feeToken.address,
+          afterFee(secondSwapOutput)
+        );
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              thirdSwapOutput,
+              [
+                {
+                  from: tokenB.address,
+                  to: tokenA.address,
+                  poolType: PoolType.Auto,
+                },
+                {
+                  from: tokenA.address,
+                  to: feeToken.address,
+                  poolType: PoolType.Auto,
+                },
+                {
+                  from: feeToken.address,
+                  to: wnt.address,
+                  poolType: PoolType.Auto,
+                },
+              ],
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        )
+          .to.emit(wnt, "Transfer")
+          .withArgs(feeWNTPair.address, alice.address, thirdSwapOutput);
+      });
+    });
+
+    describe("function: swapExactNativeTokenForTokensSupportingFeeOnTransferTokens", () => {
+      it("reverts if first from is not wnt", async () => {
+        await expect(
+          router.swapExactNativeTokenForTokensSupportingFeeOnTransferTokens(
+            0,
+            [
+              {
+                from: tokenA.address,
+                to: wnt.address,
+                poolType: PoolType.Auto,
+              },
+            ],
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+        ).to.revertedWith("Router__InvalidRoute()");
+      });
+
+      it("swaps the native token for a fee-on-transfer token", async () => {
+        const route = [
+          { from: wnt.address, to: feeToken.address, poolType: PoolType.Auto },
+        ];
+
+        const amountOut = await feeWNTPair.getAmountOut(
+          wnt.address,
+          parseEther("1")
+        );
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactNativeTokenForTokensSupportingFeeOnTransferTokens(
+              amountOut,
+              route,
+              alice.address,
+              ethers.constants.MaxUint256,
+              { value: parseEther("1") }
+            )
+        ).to.revertedWith("Router__InsufficientOutput()");
+
+        const balance = await feeToken.balanceOf(alice.address);
+
+        await router
+          .connect(alice)
+          .swapExactNativeTokenForTokensSupportingFeeOnTransferTokens(
+            afterFee(amountOut),
+            route,
+            alice.address,
+            ethers.constants.MaxUint256,
+            { value: parseEther("1") }
+          );
+
+        expect(await feeToken.balanceOf(alice.address)).to.be.equal(
+          balance.add(afterFee(amountOut))
+        );
+      });
+    });
+
+    describe("function: swapExactTokensForNativeTokenSupportingFeeOnTransferTokens", () => {
+      it("reverts if the route does not end in wnt", async () => {
+        await expect(
+          router.swapExactTokensForNativeTokenSupportingFeeOnTransferTokens(
+            0,
+            0,
+            [
+              {
+                from: wnt.address,
+                to: tokenA.address,
+                poolType: PoolType.Auto,
+              },
+            ],
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+        ).to.revertedWith("Router__InvalidRoute()");
+      });
+
+      it("swaps a fee-on-transfer token for the native token", async () => {
+        const route = [
+          { from: feeToken.address, to: wnt.address, poolType: PoolType.Auto },
+        ];
+
+        const amountOut = await feeWNTPair.getAmountOut(
+          feeToken.address,
+          afterFee(parseEther("10"))
+        );
+
+        await expect(
+          router
+            .connect(alice)
+            .swapExactTokensForNativeTokenSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              amountOut.add(1),
+              route,
+              owner.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__InsufficientOutput()");
+
+        await expect(() =>
+          router
+            .connect(alice)
+            .swapExactTokensForNativeTokenSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              amountOut,
+              route,
+              owner.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.changeEtherBalance(owner, amountOut);
+      });
+
+      it("does not send the WNT the router already holds", async () => {
+        // e.g. left by another call of a multicall
+        await wnt.deposit({ value: parseEther("1") });
+        await wnt.transfer(router.address, parseEther("1"));
+
+        const amountOut = await feeWNTPair.getAmountOut(
+          feeToken.address,
+          afterFee(parseEther("10"))
+        );
+
+        await expect(() =>
+          router
+            .connect(alice)
+            .swapExactTokensForNativeTokenSupportingFeeOnTransferTokens(
+              parseEther("10"),
+              0,
+              [
+                {
+                  from: feeToken.address,
+                  to: wnt.address,
+                  poolType: PoolType.Auto,
+                },
+              ],
+              owner.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.changeEtherBalance(owner, amountOut);
+
+        expect(await wnt.balanceOf(router.address)).to.be.equal(
+          parseEther("1")
+        );
+      });
+    });
+
+    describe("function: removeLiquidityNativeTokenSupportingFeeOnTransferTokens", () => {
+      it("reverts if it is past the deadline", async () => {
+        await expect(
+          router.removeLiquidityNativeTokenSupportingFeeOnTransferTokens(
+            feeToken.address,
+            false,
+            0,
+            0,
+            0,
+            alice.address,
+            0
+          )
+        ).to.revertedWith("Router__Expired()");
+      });
+
+      it("removes liquidity of a fee-on-transfer token", async () => {
+        const liquidity = (await feeWNTPair.balanceOf(alice.address)).div(2);
+
+        await feeWNTPair
+          .connect(alice)
+          .approve(router.address, ethers.constants.MaxUint256);
+
+        // The router receives less than the pair sends
+        await expect(
+          router
+            .connect(alice)
+            .removeLiquidityNativeToken(
+              feeToken.address,
+              false,
+              liquidity,
+              0,
+              0,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.revertedWith("Router__TransferFailed()");
+
+        const [amountToken, amountNativeToken] =
+          await router.quoteRemoveLiquidity(
+            feeToken.address,
+            wnt.address,
+            false,
+            liquidity
+          );
+
+        const balance = await feeToken.balanceOf(alice.address);
+
+        await expect(() =>
+          router
+            .connect(alice)
+            .removeLiquidityNativeTokenSupportingFeeOnTransferTokens(
+              feeToken.address,
+              false,
+              liquidity,
+              amountToken,
+              amountNativeToken,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        ).to.changeEtherBalance(alice, amountNativeToken);
+
+        // The fee is charged from the pair to the router and from the router to alice
+        expect(await feeToken.balanceOf(alice.address)).to.be.equal(
+          balance.add(afterFee(afterFee(amountToken)))
+        );
+      });
+
+      it("does not send the tokens the router already holds", async () => {
+        // e.g. left by another call of a multicall
+        await feeToken.connect(alice).transfer(router.address, parseEther("1"));
+
+        const [leftover, liquidity] = await Promise.all([
+          feeToken.balanceOf(router.address),
+          feeWNTPair.balanceOf(alice.address),
+        ]);
+
+        await feeWNTPair
+          .connect(alice)
+          .approve(router.address, ethers.constants.MaxUint256);
+
+        const [amountToken] = await router.quoteRemoveLiquidity(
+          feeToken.address,
+          wnt.address,
+          false,
+          liquidity.div(2)
+        );
+
+        const balance = await feeToken.balanceOf(alice.address);
+
+        await router
+          .connect(alice)
+          .removeLiquidityNativeTokenSupportingFeeOnTransferTokens(
+            feeToken.address,
+            false,
+            liquidity.div(2),
+            0,
+            0,
+            alice.address,
+            ethers.constants.MaxUint256
+          );
+
+        expect(await feeToken.balanceOf(alice.address)).to.be.equal(
+          balance.add(afterFee(afterFee(amountToken)))
+        );
+        expect(await feeToken.balanceOf(router.address)).to.be.equal(leftover);
+      });
+    });
+  });
 });
@@ -0,0 +1,179 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Factory, Router, ERC20, WNT } from "../typechain";
+
+import { fetchPools, findBestRoute, PoolType } from "../lib/routes";
+
+import { deploy, multiDeploy } from "./utils";
+
+const { parseEther } = ethers.utils;
+
+describe("Routes", () => {
+  let factory: Factory;
+  let router: Router;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+  let tokenC: ERC20;
+  let tokenD: ERC20;
+
+  let alice: SignerWithAddress;
+
+  const addLiquidity = (
+    tokenX: ERC20,
+    tokenY: ERC20,
+    stable: boolean,
+    amountX: string,
+    amountY: string
+  ) =>
+    router
+      .connect(alice)
+      .addLiquidity(
+        tokenX.address,
+        tokenY.address,
+        stable,
+        parseEther(amountX),
+        parseEther(amountY),
+        0,
+        0,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+  beforeEach(async () => {
+    let wnt: WNT;
+
+    [[, alice], [factory, tokenA, tokenB, tokenC, tokenD, wnt]] =
+      await Promise.all([
+        ethers.getSigners(),
+        multiDeploy(
+          ["Factory", "ERC20", "ERC20", "ERC20", "ERC20", "WNT"],
+          [
+            [],
+            ["TokenA", "TA"],
+            ["TokenB", "TB"],
+            ["TokenC", "TC"],
+            ["TokenD", "TD"],
+          ]
+        ),
+      ]);
+
+    router = await deploy("Router", [factory.address, wnt.address]);
+
+    for (const token of [tokenA, tokenB, tokenC, tokenD]) {
+      await token.mint(alice.address, parseEther("100000"));
+      await token
+        .connect(alice)
+        .approve(router.address, ethers.constants.MaxUint256);
+    }
+
+    // A -> B is shallow so A -> C -> B is better for large trades
+    await addLiquidity(tokenA, tokenB, false, "10", "10");
+    await addLiquidity(tokenA, tokenC, false, "10000", "10000");
+    await addLiquidity(tokenC, tokenB, true, "10000", "10000");
+    await addLiquidity(tokenC, tokenB, false, "10000", "10000");
+  });
+
+  it("returns undefined if the tokens are not connected", async () => {
+    const pools = await fetchPools(factory);
+
+    expect(
+      await findBestRoute(
+        pools,
+        tokenA.address,
+        tokenD.address,
+        parseEther("1")
+      )
+    ).to.be.equal(undefined);
+  });
+
+  it("picks the direct route for small trades", async () => {
+    const pools = await fetchPools(factory);
+
+    const best = await findBestRoute(
+      pools,
+      tokenA.address,
+      tokenB.address,
+      parseEther("0.001")
+    );
+
+    expect(best!.routes).to.be.deep.equal([
+      { from: tokenA.address, to: tokenB.address, poolType: PoolType.Auto },
+    ]);
+    expect(best!.pairs).to.be.deep.equal([
+      await factory.getPair(tokenA.address, tokenB.address, false),
+    ]);
+  });
+
+  it("finds a multi-hop route that matches the router", async () => {
+    const pools = await fetchPools(factory);
+    const amountIn = parseEther("50");
+
+    const best = await findBestRoute(
+      pools,
+      tokenA.address,
+      tokenB.address,
+      amountIn,
+      { maxHops: 2 }
+    );
+
+    expect(best!.routes).to.be.deep.equal([
+      { from: tokenA.address, to: tokenC.address, poolType: PoolType.Auto },
+      { from: tokenC.address, to: tokenB.address, poolType: PoolType.Auto },
+    ]);
+    // Stable pools are cheaper for balanced reserves
+    expect(best!.amounts.map(({ stable }) => stable)).to.be.deep.equal([
+      false,
+      false,
+      true,
+    ]);
+    expect(best!.pairs).to.be.deep.equal([
+      await factory.getPair(tokenA.address, tokenC.address, false),
+      await factory.getPair(tokenC.address, tokenB.address, true),
+    ]);
+    expect(best!.priceImpact).to.be.gt(0);
+    expect(best!.priceImpact).to.be.lt(parseEther("0.01"));
+
+    const onChain = await router.getAmountsOut(amountIn, best!.routes);
+
+    expect(best!.amounts.map(({ amount }) => amount)).to.be.deep.equal(
+      onChain.map(({ amount }) => amount)
+    );
+
+    const balance = await tokenB.balanceOf(alice.address);
+
+    await router
+      .connect(alice)
+      .swapExactTokensForTokens(
+        amountIn,
+        best!.amounts[2].amount,
+        best!.routes,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+    expect(await tokenB.balanceOf(alice.address)).to.be.equal(
+      balance.add(best!.amounts[2].amount)
+    );
+  });
+
+  it("quotes the best route with the router", async () => {
+    const pools = await fetchPools(factory);
+
+    const best = await findBestRoute(
+      pools,
+      tokenB.address,
+      tokenA.address,
+      parseEther("20"),
+      { router }
+    );
+
+    const onChain = await router.getAmountsOut(parseEther("20"), best!.routes);
+
+    expect(best!.amounts).to.be.deep.equal(
+      onChain.map(({ amount, stable }) => ({ amount, stable }))
+    );
+  });
+}).timeout(20_000);
@@ -1,13 +1,13 @@
 import { BigNumber } from "ethers";
 import { ethers } from "hardhat";
-import { ecsign } from "ethereumjs-util";
 
-// @desc follow the same order of the signers accounts
-export const PRIVATE_KEYS = [
-  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
-  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
-  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
-];
+import { ERC20, ERC20Small, Factory, Pair } from "../typechain";
+
+import { decodeError, DecodedError } from "../lib/errors";
+
+// @desc the default TWAP of the factory, 15 minutes split in 5 observations
+export const TWAP_WINDOW = 900;
+export const PERIOD_SIZE = TWAP_WINDOW / 5;
 
 export const multiDeploy = async (
   x: ReadonlyArray<string>,
@@ -48,84 +48,9 @@ export const advanceBlockAndTime = async (
   await _ethers.provider.send("evm_mine", []);
 };
 
+// Compares the addresses as numbers like the factory, as the case of checksummed addresses changes the order of the strings
 export const sortTokens = (a: string, b: string): [string, string] =>
-  a < b ? [a, b] : [b, a];
-
-export const getPairDomainSeparator = (
-  pairAddress: string,
-  pairName: string,
-  chainId: number
-) =>
-  ethers.utils.solidityKeccak256(
-    ["bytes"],
-    [
-      ethers.utils.defaultAbiCoder.encode(
-        ["bytes32", "bytes32", "bytes32", "uint256", "address"],
-        [
-          ethers.utils.solidityKeccak256(
-            ["bytes"],
-            [
-              ethers.utils.toUtf8Bytes(
-                "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
-              ),
-            ]
-          ),
-          ethers.utils.solidityKeccak256(
-            ["bytes"],
-            [ethers.utils.toUtf8Bytes(pairName)]
-          ),
-          ethers.utils.solidityKeccak256(
-            ["bytes"],
-            [ethers.utils.toUtf8Bytes("1")]
-          ),
-          chainId,
-          pairAddress,
-        ]
-      ),
-    ]
-  );
-
-export const getPairDigest = (
-  domainSeparator: string,
-  owner: string,
-  spender: string,
-  value: BigNumber,
-  nonce: number,
-  deadline: number
-) =>
-  ethers.utils.keccak256(
-    ethers.utils.solidityPack(
-      ["bytes1", "bytes1", "bytes32", "bytes32"],
-      [
-        "0x19",
-        "0x01",
-        domainSeparator,
-        ethers.utils.keccak256(
-          ethers.utils.defaultAbiCoder.encode(
-            ["bytes32", "address", "address", "uint256", "uint256", "uint256"],
-            [
-              ethers.utils.keccak256(
-                ethers.utils.toUtf8Bytes(
-                  "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
-                )
-              ),
-              owner,
-              spender,
-              value.toString(),
-              nonce,
-              deadline,
-            ]
-          )
-        ),
-      ]
-    )
-  );
-
-export const getECSign = (privateKey: string, digest: string) =>
-  ecsign(
-    Buffer.from(digest.slice(2), "hex"),
-    Buffer.from(privateKey.replace("0x", ""), "hex")
-  );
+  a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
 
 const ONE = ethers.BigNumber.from(1);
 const TWO = ethers.BigNumber.from(2);
@@ -152,3 +77,51 @@ export const quoteLiquidity = (
 
   return amountA.mul(reserveB).div(reserveA);
 };
+
+// @desc resolves with the decoded custom error of a promise that reverts, or undefined if it does not revert
+export const catchError = (
+  promise: Promise<unknown>
+): Promise<DecodedError | undefined> =>
+  promise.then(
+    () => undefined,
+    (error) => decodeError(error)
+  );
+
+// @desc mulberry32, a seeded random number generator, so a randomized test replays the same run for the same seed
+export const makeRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// @desc deploys a factory, two tokens with 18 decimals and one with 6 decimals
+export const deployFactoryAndTokens = (): Promise<
+  [Factory, ERC20, ERC20, ERC20Small]
+> =>
+  multiDeploy(
+    ["Factory", "ERC20", "ERC20", "ERC20Small"],
+    [[], ["TokenA", "TA"], ["TokenB", "TB"], ["Small Token", "ST"]]
+  );
+
+export const getPair = async (
+  factory: Factory,
+  tokenA: string,
+  tokenB: string,
+  stable: boolean
+) =>
+  (await ethers.getContractAt(
+    "Pair",
+    await factory.getPair(tokenA, tokenB, stable)
+  )) as Pair;
+
+// @desc records an observation in every period of the window of the TWAP without changing the prices, so the TWAP of the pairs is available
+export const syncEveryPeriod = async (
+  pairs: ReadonlyArray<Pair>,
+  periods = 5
+) => {
+  for (let i = 0; i < periods; i++) {
+    await advanceBlockAndTime(PERIOD_SIZE + 1, ethers);
+    for (const pair of pairs) await pair.sync();
+  }
+};
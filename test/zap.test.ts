@@ -0,0 +1,416 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import { Factory, Router, ERC20, Pair, WNT, Zap } from "../typechain";
+
+import { multiDeploy } from "./utils";
+
+const { parseEther } = ethers.utils;
+
+describe("Zap", () => {
+  let factory: Factory;
+  let router: Router;
+  let zap: Zap;
+  let wnt: WNT;
+
+  let tokenA: ERC20;
+  let tokenB: ERC20;
+
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+
+  const getPair = async (tokenA: string, tokenB: string, stable: boolean) =>
+    (await ethers.getContractAt(
+      "Pair",
+      await factory.getPair(tokenA, tokenB, stable)
+    )) as Pair;
+
+  const addLiquidity = (
+    tokenA: string,
+    tokenB: string,
+    stable: boolean,
+    amountA: string,
+    amountB: string
+  ) =>
+    router.addLiquidity(
+      tokenA,
+      tokenB,
+      stable,
+      parseEther(amountA),
+      parseEther(amountB),
+      0,
+      0,
+      owner.address,
+      ethers.constants.MaxUint256
+    );
+
+  beforeEach(async () => {
+    [[owner, alice], [factory, tokenA, tokenB, wnt]] = await Promise.all([
+      ethers.getSigners(),
+      multiDeploy(
+        ["Factory", "ERC20", "ERC20", "WNT"],
+        [[], ["TokenA", "TA"], ["TokenB", "TB"], []]
+      ),
+    ]);
+
+    [router, zap] = await multiDeploy(
+      ["Router", "Zap"],
+      [
+        [factory.address, wnt.address],
+        [factory.address, wnt.address],
+      ]
+    );
+
+    await Promise.all([
+      tokenA.mint(owner.address, parseEther("10000")),
+      tokenB.mint(owner.address, parseEther("10000")),
+      tokenA.mint(alice.address, parseEther("100")),
+      wnt.deposit({ value: parseEther("100") }),
+      tokenA.approve(router.address, ethers.constants.MaxUint256),
+      tokenB.approve(router.address, ethers.constants.MaxUint256),
+      wnt.approve(router.address, ethers.constants.MaxUint256),
+      tokenA.connect(alice).approve(zap.address, ethers.constants.MaxUint256),
+    ]);
+
+    await addLiquidity(tokenA.address, tokenB.address, false, "100", "200");
+    await addLiquidity(tokenA.address, tokenB.address, true, "100", "150");
+    await addLiquidity(tokenA.address, wnt.address, false, "100", "50");
+  });
+
+  it("reverts if the pair has no liquidity", async () => {
+    await factory.createPair(tokenB.address, wnt.address, false);
+
+    await expect(
+      zap.getZapInSwapAmount(
+        await factory.getPair(tokenB.address, wnt.address, false),
+        tokenB.address,
+        parseEther("1")
+      )
+    ).to.revertedWith("Zap__NoLiquidity()");
+  });
+
+  describe("function: zapIn", () => {
+    it("reverts if the arguments are invalid", async () => {
+      await expect(
+        zap
+          .connect(alice)
+          .zapIn(
+            tokenA.address,
+            parseEther("1"),
+            [tokenA.address, tokenB.address],
+            false,
+            0,
+            alice.address,
+            0
+          )
+      ).to.revertedWith("Zap__Expired()");
+
+      await expect(
+        zap
+          .connect(alice)
+          .zapIn(
+            wnt.address,
+            parseEther("1"),
+            [tokenA.address, tokenB.address],
+            false,
+            0,
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith("Zap__InvalidToken()");
+
+      await expect(
+        zap
+          .connect(alice)
+          .zapIn(
+            tokenA.address,
+            parseEther("1"),
+            [tokenA.address, wnt.address],
+            true,
+            0,
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith("Zap__PairNotFound()");
+
+      await expect(
+        zap
+          .connect(alice)
+          .zapIn(
+            tokenA.address,
+            0,
+            [tokenA.address, tokenB.address],
+            false,
+            0,
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith("Zap__ZeroAmount()");
+    });
+
+    it("reverts if it mints less than the minimum", async () => {
+      const liquidity = await zap
+        .connect(alice)
+        .callStatic.zapIn(
+          tokenA.address,
+          parseEther("10"),
+          [tokenA.address, tokenB.address],
+          false,
+          0,
+          alice.address,
+          ethers.constants.MaxUint256
+        );
+
+      await expect(
+        zap
+          .connect(alice)
+          .zapIn(
+            tokenA.address,
+            parseEther("10"),
+            [tokenA.address, tokenB.address],
+            false,
+            liquidity.add(1),
+            alice.address,
+            ethers.constants.MaxUint256
+          )
+      ).to.revertedWith("Zap__InsufficientLiquidity()");
+    });
+
+    for (const stable of [false, true]) {
+      it(`deposits a single token in a ${
+        stable ? "stable" : "volatile"
+      } pair`, async () => {
+        const pair = await getPair(tokenA.address, tokenB.address, stable);
+        const [token0] = await pair.tokens();
+
+        const getState = async () => {
+          const [totalSupply, [reserve0, reserve1]] = await Promise.all([
+            pair.totalSupply(),
+            pair.getReserves(),
+          ]);
+
+          return token0 === tokenA.address
+            ? { totalSupply, reserveA: reserve0, reserveB: reserve1 }
+            : { totalSupply, reserveA: reserve1, reserveB: reserve0 };
+        };
+
+        const before = await getState();
+
+        await expect(
+          zap
+            .connect(alice)
+            .zapIn(
+              tokenA.address,
+              parseEther("10"),
+              [tokenB.address, tokenA.address],
+              stable,
+              0,
+              alice.address,
+              ethers.constants.MaxUint256
+            )
+        )
+          .to.emit(pair, "Swap")
+          .to.emit(pair, "Mint");
+
+        const [after, liquidity, balanceA, balanceB] = await Promise.all([
+          getState(),
+          pair.balanceOf(alice.address),
+          tokenA.balanceOf(alice.address),
+          tokenB.balanceOf(alice.address),
+        ]);
+
+        expect(liquidity).to.be.equal(
+          after.totalSupply.sub(before.totalSupply)
+        );
+
+        // Almost all of the input ends in the pair, and the token B bought is deposited back
+        expect(after.reserveA.sub(before.reserveA)).to.be.closeTo(
+          parseEther("10"),
+          parseEther("0.0001")
+        );
+        expect(after.reserveB).to.be.closeTo(
+          before.reserveB,
+          parseEther("0.0001")
+        );
+
+        // The dust is refunded
+        expect(balanceA).to.be.closeTo(parseEther("90"), parseEther("0.0001"));
+        expect(balanceB.lte(parseEther("0.0001"))).to.be.equal(true);
+
+        expect(await tokenA.balanceOf(zap.address)).to.be.equal(0);
+        expect(await tokenB.balanceOf(zap.address)).to.be.equal(0);
+      });
+    }
+
+    it("matches the closed form of a volatile pair", async () => {
+      const pair = await getPair(tokenA.address, tokenB.address, false);
+
+      const amountSwap = await zap.getZapInSwapAmount(
+        pair.address,
+        tokenA.address,
+        parseEther("10")
+      );
+
+      const amountOut = await pair.getAmountOut(tokenA.address, amountSwap);
+
+      // The tokens left have the ratio of the reserves after the swap, 100 + amountSwap to 200 - amountOut
+      expect(
+        parseEther("10").sub(amountSwap).mul(parseEther("200").sub(amountOut))
+      ).to.be.closeTo(
+        amountOut.mul(parseEther("100").add(amountSwap)),
+        parseEther("1").mul(parseEther("0.0001"))
+      );
+    });
+  });
+
+  describe("function: zapInNativeToken", () => {
+    it("deposits the native token", async () => {
+      const pair = await getPair(tokenA.address, wnt.address, false);
+
+      await expect(
+        zap
+          .connect(alice)
+          .zapInNativeToken(
+            tokenA.address,
+            false,
+            0,
+            alice.address,
+            ethers.constants.MaxUint256,
+            { value: parseEther("5") }
+          )
+      ).to.emit(pair, "Mint");
+
+      expect((await pair.balanceOf(alice.address)).gt(0)).to.be.equal(true);
+      expect(
+        (await wnt.balanceOf(alice.address)).lte(parseEther("0.0001"))
+      ).to.be.equal(true);
+    });
+  });
+
+  describe("function: zapOut", () => {
+    let pair: Pair;
+
+    beforeEach(async () => {
+      pair = await getPair(tokenA.address, tokenB.address, false);
+
+      await pair.approve(zap.address, ethers.constants.MaxUint256);
+    });
+
+    it("reverts if the amount out is below the minimum", async () => {
+      const amountOut = await zap.callStatic.zapOut(
+        [tokenA.address, tokenB.address],
+        false,
+        parseEther("10"),
+        tokenB.address,
+        0,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+      await expect(
+        zap.zapOut(
+          [tokenA.address, tokenB.address],
+          false,
+          parseEther("10"),
+          tokenB.address,
+          amountOut.add(1),
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      ).to.revertedWith("Zap__InsufficientOutput()");
+
+      await expect(
+        zap.zapOut(
+          [tokenA.address, tokenB.address],
+          false,
+          parseEther("10"),
+          wnt.address,
+          0,
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      ).to.revertedWith("Zap__InvalidToken()");
+    });
+
+    it("burns LP tokens into a single token", async () => {
+      const [totalSupply, [reserve0, reserve1], [token0]] = await Promise.all([
+        pair.totalSupply(),
+        pair.getReserves(),
+        pair.tokens(),
+      ]);
+
+      const [reserveA, reserveB] =
+        token0 === tokenA.address ? [reserve0, reserve1] : [reserve1, reserve0];
+
+      const liquidity = parseEther("10");
+      const burnedA = liquidity.mul(reserveA).div(totalSupply);
+      const burnedB = liquidity.mul(reserveB).div(totalSupply);
+
+      const amountOut = await zap.callStatic.zapOut(
+        [tokenA.address, tokenB.address],
+        false,
+        liquidity,
+        tokenB.address,
+        0,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+      // The burned token A is sold below the spot price because of the fee and the price impact
+      expect(amountOut.gt(burnedB)).to.be.equal(true);
+      expect(
+        amountOut.lt(burnedB.add(burnedA.mul(reserveB).div(reserveA)))
+      ).to.be.equal(true);
+
+      const balanceBefore = await tokenA.balanceOf(alice.address);
+
+      await expect(
+        zap.zapOut(
+          [tokenA.address, tokenB.address],
+          false,
+          liquidity,
+          tokenB.address,
+          0,
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      )
+        .to.emit(pair, "Burn")
+        .to.emit(pair, "Swap");
+
+      expect(await tokenB.balanceOf(alice.address)).to.be.equal(amountOut);
+      expect(await tokenA.balanceOf(alice.address)).to.be.equal(balanceBefore);
+      expect(await tokenA.balanceOf(zap.address)).to.be.equal(0);
+      expect(await tokenB.balanceOf(zap.address)).to.be.equal(0);
+    });
+  });
+
+  describe("function: zapOutNativeToken", () => {
+    it("burns LP tokens into the native token", async () => {
+      const pair = await getPair(tokenA.address, wnt.address, false);
+
+      await pair.approve(zap.address, ethers.constants.MaxUint256);
+
+      const amountOut = await zap.callStatic.zapOutNativeToken(
+        tokenA.address,
+        false,
+        parseEther("10"),
+        0,
+        alice.address,
+        ethers.constants.MaxUint256
+      );
+
+      await expect(() =>
+        zap.zapOutNativeToken(
+          tokenA.address,
+          false,
+          parseEther("10"),
+          amountOut,
+          alice.address,
+          ethers.constants.MaxUint256
+        )
+      ).to.changeEtherBalance(alice, amountOut);
+    });
+  });
+});